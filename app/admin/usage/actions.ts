@@ -0,0 +1,36 @@
+'use server'
+
+import { cookies, headers } from 'next/headers'
+import { ADMIN_COOKIE, ADMIN_SESSION_SECONDS, adminTokenFor } from '@/lib/admin'
+import { beginLoginAttempt, recordLoginSuccess } from '@/lib/auth'
+import { clientIp } from '@/lib/ratelimit'
+
+// Admin logins go through the same throttle as user logins, under their own username counter
+export async function verifyAdminPassword(formData: FormData) {
+    const ip = clientIp(headers())
+    const wait = await beginLoginAttempt('admin', ip, 'admin')
+    if (wait > 0) {
+        const minutes = Math.ceil(wait / 60)
+        return { success: false, error: `Too many failed attempts. Try again in ${minutes} ${minutes === 1 ? 'minute' : 'minutes'}.` }
+    }
+
+    const token = await adminTokenFor(String(formData.get('password') || ''))
+    if (!token) {
+        console.warn(`[Admin] event=login_failed ip=${ip}`)
+        return { success: false, error: 'Incorrect password.' }
+    }
+
+    await recordLoginSuccess('admin', ip, 'admin')
+    cookies().set(ADMIN_COOKIE, token, {
+        httpOnly: true,
+        secure: process.env.NODE_ENV === 'production',
+        sameSite: 'strict',
+        maxAge: ADMIN_SESSION_SECONDS,
+        path: '/admin',
+    })
+    return { success: true }
+}
+
+export async function signOutAdmin() {
+    cookies().delete({ name: ADMIN_COOKIE, path: '/admin' })
+}
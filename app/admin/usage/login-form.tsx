@@ -0,0 +1,54 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { verifyAdminPassword } from './actions'
+
+export default function AdminLoginForm() {
+    const [error, setError] = useState<string | null>(null)
+    const [loading, setLoading] = useState(false)
+    const router = useRouter()
+
+    async function handleSubmit(formData: FormData) {
+        setLoading(true)
+        setError(null)
+        try {
+            const result = await verifyAdminPassword(formData)
+            if (result.success) {
+                router.refresh()
+            } else {
+                setError(result.error || 'Invalid password')
+            }
+        } catch (e) {
+            setError('An error occurred. Please try again.')
+        } finally {
+            setLoading(false)
+        }
+    }
+
+    return (
+        <form action={handleSubmit} className="bg-white p-10 rounded-sm border border-gray-100 shadow-sm max-w-md w-full space-y-6">
+            <p className="text-gray-500 font-ui text-[13px] text-center uppercase tracking-widest font-medium">Usage Dashboard</p>
+            <input
+                name="password"
+                type="password"
+                placeholder="Admin password"
+                required
+                autoFocus
+                className="w-full p-4 border border-gray-200 rounded-sm focus:outline-none focus:border-brand-red/30 focus:ring-0 font-academic text-lg transition-all placeholder:text-gray-300"
+            />
+            {error && (
+                <div className="text-red-800 text-xs bg-red-50 p-3 rounded-sm border border-red-100 font-ui">
+                    {error}
+                </div>
+            )}
+            <button
+                type="submit"
+                disabled={loading}
+                className={`w-full py-4 rounded-sm text-white font-ui uppercase tracking-[0.2em] text-xs font-semibold shadow-sm transition-all ${loading ? 'bg-gray-200 cursor-not-allowed text-gray-400' : 'bg-brand-red hover:bg-brand-red-dark active:scale-[0.99]'}`}
+            >
+                {loading ? 'Verifying...' : 'Sign In'}
+            </button>
+        </form>
+    )
+}
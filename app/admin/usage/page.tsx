@@ -0,0 +1,127 @@
+import type { Metadata } from 'next'
+import Link from 'next/link'
+import { isAdmin, isAdminConfigured } from '@/lib/admin'
+import { getUsageStore, summarizeUsage } from '@/lib/usage'
+import AdminLoginForm from './login-form'
+import { signOutAdmin } from './actions'
+
+export const metadata: Metadata = {
+    title: 'Usage - Chicago Style Checker',
+}
+
+export const dynamic = 'force-dynamic'
+
+const PERIODS = [1, 7, 30, 90]
+
+const usd = (n: number) => `$${n < 1 ? n.toFixed(4) : n.toFixed(2)}`
+const int = (n: number) => n.toLocaleString('en-US')
+
+function Stat({ label, value }: { label: string; value: string }) {
+    return (
+        <div className="p-5 bg-white border border-gray-100 rounded-sm">
+            <div className="text-[11px] uppercase tracking-widest text-gray-400 font-semibold mb-2">{label}</div>
+            <div className="text-2xl font-academic text-gray-900">{value}</div>
+        </div>
+    )
+}
+
+function Table({ title, headers, rows }: { title: string; headers: string[]; rows: (string | number)[][] }) {
+    return (
+        <section className="mb-12">
+            <h2 className="text-xs uppercase tracking-widest font-semibold text-gray-500 mb-4">{title}</h2>
+            {rows.length === 0 ? (
+                <p className="text-sm text-gray-400 italic">No usage in this period.</p>
+            ) : (
+                <table className="w-full text-sm bg-white border border-gray-100">
+                    <thead>
+                        <tr className="text-left text-[11px] uppercase tracking-widest text-gray-400 border-b border-gray-100">
+                            {headers.map((h, i) => <th key={h} className={`px-4 py-3 font-semibold ${i > 0 ? 'text-right' : ''}`}>{h}</th>)}
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {rows.map((row, r) => (
+                            <tr key={r} className="border-b border-gray-50 last:border-0">
+                                {row.map((cell, i) => <td key={i} className={`px-4 py-2.5 ${i > 0 ? 'text-right tabular-nums' : 'font-mono text-xs'}`}>{cell}</td>)}
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            )}
+        </section>
+    )
+}
+
+export default async function UsagePage({ searchParams }: { searchParams: { days?: string } }) {
+    if (!isAdminConfigured()) {
+        return (
+            <div className="min-h-screen bg-[#fcfbf7] flex items-center justify-center p-6 font-ui text-sm text-gray-500">
+                Set ADMIN_PASSWORD and SESSION_SECRET to enable the usage dashboard.
+            </div>
+        )
+    }
+    if (!(await isAdmin())) {
+        return (
+            <div className="min-h-screen bg-[#fcfbf7] flex items-center justify-center p-6">
+                <AdminLoginForm />
+            </div>
+        )
+    }
+
+    const days = PERIODS.includes(Number(searchParams.days)) ? Number(searchParams.days) : 7
+    const now = Date.now()
+    const records = await getUsageStore().list(now - days * 24 * 60 * 60 * 1000, now + 1)
+    const report = summarizeUsage(records)
+
+    return (
+        <div className="min-h-screen bg-[#fcfbf7] p-8 font-ui text-[#1a1a1a]">
+            <div className="max-w-6xl mx-auto">
+                <div className="flex items-center justify-between mb-10">
+                    <div>
+                        <Link href="/" className="text-xs uppercase tracking-widest text-gray-500 hover:text-brand-red transition-colors inline-block mb-6 font-semibold">
+                            ← Back to Checker
+                        </Link>
+                        <h1 className="text-4xl font-academic font-normal text-gray-900 tracking-tight">Usage</h1>
+                    </div>
+                    <div className="flex items-center gap-4">
+                        {PERIODS.map(p => (
+                            <Link key={p} href={`/admin/usage?days=${p}`} className={`text-xs uppercase tracking-widest font-medium ${p === days ? 'text-brand-red' : 'text-gray-500 hover:text-gray-900'}`}>
+                                {p === 1 ? '24 hours' : `${p} days`}
+                            </Link>
+                        ))}
+                        <form action={signOutAdmin}>
+                            <button type="submit" className="text-xs uppercase tracking-widest text-gray-400 hover:text-gray-900">Sign out</button>
+                        </form>
+                    </div>
+                </div>
+
+                <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-4 mb-12">
+                    <Stat label="Requests" value={int(report.totals.requests)} />
+                    <Stat label="Model calls" value={int(report.totals.llmCalls)} />
+                    <Stat label="Tokens in / out" value={`${int(report.totals.inputTokens)} / ${int(report.totals.outputTokens)}`} />
+                    <Stat label="Est. cost" value={usd(report.totals.costUsd)} />
+                    <Stat label="Cache hit rate" value={`${Math.round(report.totals.cacheHitRate * 100)}%`} />
+                    <Stat label="Avg latency" value={`${int(report.totals.avgLatencyMs)} ms`} />
+                </div>
+
+                <Table
+                    title="Daily totals (UTC)"
+                    headers={['Date', 'Requests', 'Cache hits', 'Model calls', 'Input tokens', 'Output tokens', 'Est. cost']}
+                    rows={report.daily.map(d => [d.date, int(d.requests), int(d.cacheHits), int(d.llmCalls), int(d.inputTokens), int(d.outputTokens), usd(d.costUsd)])}
+                />
+                <Table
+                    title="Cost by provider"
+                    headers={['Provider / model', 'Calls', 'Input tokens', 'Output tokens', 'Est. cost']}
+                    rows={report.byProvider.map(p => [`${p.provider} / ${p.model}`, int(p.llmCalls), int(p.inputTokens), int(p.outputTokens), usd(p.costUsd)])}
+                />
+                <Table
+                    title="Top users"
+                    headers={['User / anon ID', 'Requests', 'Model calls', 'Tokens', 'Est. cost']}
+                    rows={report.topUsers.map(u => [u.signedIn ? u.id : `anon ${u.id}`, int(u.requests), int(u.llmCalls), int(u.inputTokens + u.outputTokens), usd(u.costUsd)])}
+                />
+                {report.totals.errors > 0 && (
+                    <p className="text-xs text-gray-400">{int(report.totals.errors)} failed {report.totals.errors === 1 ? 'request' : 'requests'} after reaching the model are included above.</p>
+                )}
+            </div>
+        </div>
+    )
+}
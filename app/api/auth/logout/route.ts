@@ -0,0 +1,9 @@
+import { NextResponse } from 'next/server'
+import { SESSION_COOKIE } from '@/lib/auth'
+
+// Ends the session by clearing its cookie; tokens are stateless, so a copied token stays valid until it expires
+export async function POST() {
+    const resp = new NextResponse(null, { status: 204 })
+    resp.cookies.set(SESSION_COOKIE, '', { path: '/', maxAge: 0 })
+    return resp
+}
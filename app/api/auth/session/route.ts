@@ -0,0 +1,11 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authEnabled, sessionFromRequest } from '@/lib/auth'
+
+// The signed-in user, for the page header; `auth: false` when authentication is disabled
+export async function GET(req: NextRequest) {
+    const session = await sessionFromRequest(req)
+    return NextResponse.json(
+        { auth: authEnabled(), user: session ? { id: session.sub, name: session.name } : null },
+        { headers: { 'Cache-Control': 'no-store' } }
+    )
+}
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { DocxParagraph, RewriteResponse } from '@/types'
+import { MAX_DOCX_BYTES, buildTrackedDocx } from '@/lib/docx'
+import { MAX_DOCUMENT_LENGTH } from '@/lib/rewrite/pipeline'
+
+function errorResponse(status: number, type: string, message: string) {
+    return NextResponse.json({ error: { type, message } }, { status, headers: { 'Cache-Control': 'no-store' } })
+}
+
+// The body as text, or null once it grows past `maxBytes` (read no further than that)
+async function readBody(req: NextRequest, maxBytes: number): Promise<string | null> {
+    if (Number(req.headers.get('content-length')) > maxBytes) return null
+    if (!req.body) return ''
+    const reader = req.body.getReader()
+    const chunks: Uint8Array[] = []
+    let size = 0
+    for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+        size += chunk.value.byteLength
+        if (size > maxBytes) {
+            await reader.cancel()
+            return null
+        }
+        chunks.push(chunk.value)
+    }
+    return Buffer.concat(chunks).toString('utf8')
+}
+
+// Body: { original, paragraphs?, result }. `paragraphs` carries the run formatting of an
+// imported .docx and is used only while it still matches the text that was rewritten.
+// Texts are held to the rewrite limit; the revision may run somewhat longer than the original.
+export async function POST(req: NextRequest) {
+    try {
+        const raw = await readBody(req, MAX_DOCX_BYTES)
+        if (raw === null) return errorResponse(413, 'invalid_request', 'Export request is too large')
+        let payload: { original: string; paragraphs?: DocxParagraph[]; result: RewriteResponse }
+        try {
+            payload = JSON.parse(raw)
+        } catch {
+            return errorResponse(400, 'invalid_request', 'Invalid export payload')
+        }
+        const { original, paragraphs, result } = payload || {}
+        if (typeof original !== 'string' || !result || typeof result.revised_text !== 'string' || !Array.isArray(result.changes)) {
+            return errorResponse(400, 'invalid_request', 'Invalid export payload')
+        }
+        if (original.length > MAX_DOCUMENT_LENGTH || result.revised_text.length > 2 * MAX_DOCUMENT_LENGTH) {
+            return errorResponse(413, 'invalid_request', `Text is too long to export (max ${MAX_DOCUMENT_LENGTH} characters)`)
+        }
+        if (paragraphs !== undefined && !Array.isArray(paragraphs)) {
+            return errorResponse(400, 'invalid_request', 'Invalid export payload')
+        }
+
+        const buffer = await buildTrackedDocx(original, result, { paragraphs })
+        return new NextResponse(buffer, {
+            headers: {
+                'Content-Type': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+                'Content-Disposition': 'attachment; filename="revised.docx"',
+                'Cache-Control': 'no-store',
+            },
+        })
+    } catch (error) {
+        console.error('[Docx] export failed:', error)
+        return NextResponse.json({ error: { type: 'server_error', message: 'Internal error' } }, { status: 500 })
+    }
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { MAX_DOCX_BYTES, extractDocxParagraphs, paragraphsToText } from '@/lib/docx'
+
+function errorResponse(status: number, type: string, message: string) {
+    return NextResponse.json({ error: { type, message } }, { status, headers: { 'Cache-Control': 'no-store' } })
+}
+
+// Accepts a multipart upload with a single `file` field and returns its paragraphs
+export async function POST(req: NextRequest) {
+    try {
+        const form = await req.formData()
+        const file = form.get('file')
+        if (!file || typeof file === 'string') return errorResponse(400, 'invalid_request', 'No file uploaded')
+        if (!file.name.toLowerCase().endsWith('.docx')) return errorResponse(400, 'invalid_request', 'Only .docx files are supported')
+        if (file.size > MAX_DOCX_BYTES) return errorResponse(413, 'invalid_request', 'File is too large (max 5 MB)')
+
+        const paragraphs = await extractDocxParagraphs(await file.arrayBuffer())
+        if (paragraphs.length === 0) return errorResponse(400, 'invalid_request', 'The document contains no text')
+
+        return NextResponse.json(
+            { paragraphs, text: paragraphsToText(paragraphs) },
+            { headers: { 'Cache-Control': 'no-store' } }
+        )
+    } catch (error) {
+        console.error('[Docx] import failed:', error)
+        return errorResponse(400, 'invalid_document', 'Could not read this .docx file')
+    }
+}
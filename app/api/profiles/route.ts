@@ -0,0 +1,13 @@
+import { NextResponse } from 'next/server'
+import { getDefaultProfile, getProfiles } from '@/lib/profiles'
+
+// Lists the style profiles a rewrite can be run with (id, display name, CMoS edition)
+export async function GET() {
+    return NextResponse.json(
+        {
+            default: getDefaultProfile().id,
+            profiles: getProfiles().map(p => ({ id: p.id, name: p.name, edition: p.edition })),
+        },
+        { headers: { 'Cache-Control': 'no-store' } }
+    )
+}
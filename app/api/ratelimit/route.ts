@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { RATE_ALGORITHM, getOrSetAnonId, getRateLimitStatus, rateLimitBackend, rateLimitSubject, setAnonIdCookie } from '@/lib/ratelimit'
+import { sessionFromRequest } from '@/lib/auth'
+
+// Remaining quota of the caller, per scope, without charging a request ("7 of 20 left today")
+export async function GET(req: NextRequest) {
+    const anonId = getOrSetAnonId(req)
+    const session = await sessionFromRequest(req)
+    const quotas = await getRateLimitStatus(rateLimitSubject(session?.sub ?? null, anonId))
+    const resp = quotas
+        ? NextResponse.json(
+            {
+                backend: rateLimitBackend(),
+                algorithm: RATE_ALGORITHM,
+                quotas: Object.fromEntries(quotas.map(q => [q.scope, { limit: q.limit, remaining: q.remaining, reset_seconds: q.resetSeconds }])),
+            },
+            { headers: { 'Cache-Control': 'no-store' } }
+        )
+        : NextResponse.json({ error: 'Rate limiter unavailable', scope: 'unavailable' }, { status: 503, headers: { 'Cache-Control': 'no-store' } })
+    setAnonIdCookie(resp, anonId)
+    return resp
+}
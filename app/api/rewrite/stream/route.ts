@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { RewriteStreamEvent } from '@/types'
+import { getOrSetAnonId, setAnonIdCookie } from '@/lib/ratelimit'
+import { PipelineMeta, ProgressHandler, rewriteDocument, rewriteParagraph } from '@/lib/rewrite/pipeline'
+import { errorResponse, meterRewrite, outcomeHeaders, parseRewriteRequest } from '@/lib/rewrite/http'
+
+/**
+ * Streaming variant of /api/rewrite. Responds with NDJSON: a `progress` event after the
+ * cheap rules and after each LLM pass (with a located preview of the text so far), then
+ * a single `done` or `error` event, which is always the last line. Validation errors are
+ * still plain JSON responses. A client that disconnects stops receiving events, but does
+ * not stop or fail the rewrite.
+ */
+export async function POST(req: NextRequest) {
+    let anonId = ''
+    const startedAt = Date.now()
+    const meta: PipelineMeta = { provider: 'unknown', model: 'unknown', calls: [], iterations: 0 }
+
+    try {
+        anonId = getOrSetAnonId(req)
+        const { text, documentMode, ...rest } = await parseRewriteRequest(req)
+        const encoder = new TextEncoder()
+
+        // Set once the client goes away. The rewrite keeps running, detached: other requests may
+        // share it (dedupe), and its result is still cached and metered.
+        let closed = false
+        const detach = () => {
+            if (closed) return
+            closed = true
+            console.log(`[Rewrite] event=client_disconnected anon_id=${anonId}`)
+        }
+        req.signal?.addEventListener('abort', detach)
+
+        const stream = new ReadableStream({
+            async start(controller) {
+                const send = (event: RewriteStreamEvent) => {
+                    if (closed) return
+                    try {
+                        controller.enqueue(encoder.encode(JSON.stringify(event) + '\n'))
+                    } catch {
+                        detach()
+                    }
+                }
+                const onProgress: ProgressHandler = (stage, pass, preview) => send({ type: 'progress', stage, pass, preview })
+                const opts = { ...rest, anonId, meta, onProgress }
+                try {
+                    const outcome = documentMode ? await rewriteDocument(text, opts) : await rewriteParagraph(text, opts)
+                    await meterRewrite(anonId, rest.userId, meta, outcome, startedAt)
+                    // `done` is final for the client: it goes out only after every step that can fail
+                    send({ type: 'done', result: outcome.data, headers: outcomeHeaders(outcome, meta) })
+                } catch (error: any) {
+                    await meterRewrite(anonId, rest.userId, meta, null, startedAt)
+                    if (error.status) {
+                        send({ type: 'error', status: error.status, body: error.json })
+                    } else {
+                        send({ type: 'error', status: 500, body: { error: { type: 'server_error', message: 'Internal error' } } })
+                    }
+                } finally {
+                    if (!closed) controller.close()
+                }
+            },
+            cancel() {
+                detach()
+            },
+        })
+
+        const resp = new NextResponse(stream, {
+            headers: {
+                'Content-Type': 'application/x-ndjson; charset=utf-8',
+                'Cache-Control': 'no-store',
+                'X-Accel-Buffering': 'no',
+            },
+        })
+        setAnonIdCookie(resp, anonId); return resp
+
+    } catch (error: any) {
+        if (error.status) {
+            const resp = NextResponse.json(error.json, { status: error.status })
+            setAnonIdCookie(resp, anonId); return resp
+        }
+        return errorResponse(500, 'server_error', 'Internal error')
+    }
+}
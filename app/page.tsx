@@ -1,20 +1,41 @@
 'use client'
 
 import { useState, useMemo, useRef, useEffect } from 'react'
-import { RewriteResponse, Change, HistoryItem } from '@/types'
-import { X, Eye, Copy, History, Trash2, Clock } from 'lucide-react'
+import { RewriteResponse, RewriteStreamEvent, Change, ChangeType, HistoryItem, DocxParagraph } from '@/types'
+import { X, Eye, Copy, History, Trash2, Clock, Check, Upload, FileDown, Pencil, RefreshCw } from 'lucide-react'
 import Link from 'next/link'
 import { useSession } from '@/lib/session-store'
+import { ChangeDecision, ChangeDecisions, applyDecisions, decideAllOfType, describeChange, isAccepted, reviewShortcut, revertibleChangeIds } from '@/lib/change-review'
+import { InlineScan, htmlToMarkdown, markdownToHtml, markdownToPlainText, scanInline, styledRuns } from '@/lib/richtext'
+import { DiffGranularity, DiffSegment, countUnexplained, diffTexts } from '@/lib/diff'
+import { editedRanges, mergeRecheck, recheckText, reprojectChanges, splitRecheckResult } from '@/lib/recheck'
+import { projectCoordinates } from '@/lib/rewrite/locate'
+
+// Displays source[start, end) with its inline Markdown applied and the markers hidden
+function renderStyled(source: string, start: number, end: number, scan: InlineScan): React.ReactNode[] {
+    return styledRuns(source, start, end, scan).map((run, i) => {
+        let node: React.ReactNode = run.text
+        if (run.smallCaps) node = <span style={{ fontVariant: 'small-caps' }}>{node}</span>
+        if (run.italic) node = <em>{node}</em>
+        if (run.bold) node = <strong>{node}</strong>
+        return <span key={`${start}-${i}`}>{node}</span>
+    })
+}
 
 // Helper function to render revised text with highlights strictly from server-provided authoritative data
 function renderRevisedText(
     revisedText: string,
     changes: Change[],
     showHighlights: boolean,
-    activeChangeId: string | null
+    activeChangeId: string | null,
+    richText: boolean
 ): React.ReactNode[] {
+    // Rich text: slices are rendered against the scan of the whole text, so spans that open before a slice keep their style
+    const scan = richText ? scanInline(revisedText) : null
+    const slice = (start: number, end: number): React.ReactNode => scan ? renderStyled(revisedText, start, end, scan) : revisedText.substring(start, end)
+
     if (!showHighlights || changes.length === 0) {
-        return [revisedText]
+        return [slice(0, revisedText.length)]
     }
 
     // Collect all located changes (those with loc field)
@@ -34,7 +55,7 @@ function renderRevisedText(
 
         // Add plain text before this highlight
         if (start > lastIndex) {
-            nodes.push(revisedText.substring(lastIndex, start))
+            nodes.push(<span key={`text-${lastIndex}`}>{slice(lastIndex, start)}</span>)
         }
 
         const isActive = activeChangeId === change.change_id
@@ -47,7 +68,7 @@ function renderRevisedText(
                     className="line-through text-red-300 opacity-70 mr-1 select-none"
                     aria-hidden="true"
                 >
-                    {change.before}
+                    {richText ? renderStyled(change.before, 0, change.before.length, scanInline(change.before)) : change.before}
                 </span>
             )
         }
@@ -57,9 +78,9 @@ function renderRevisedText(
             <span
                 key={`${change.change_id}-after-${start}`}
                 data-change-id={change.change_id}
-                className={`text-red-600 transition-all ${isActive ? 'underline font-semibold' : ''}`}
+                className={`text-red-600 transition-all cursor-pointer ${isActive ? 'underline font-semibold' : ''}`}
             >
-                {revisedText.substring(start, end)}
+                {slice(start, end)}
             </span>
         )
 
@@ -67,15 +88,63 @@ function renderRevisedText(
     })
 
     if (lastIndex < revisedText.length) {
-        nodes.push(revisedText.substring(lastIndex))
+        nodes.push(<span key={`text-${lastIndex}`}>{slice(lastIndex, revisedText.length)}</span>)
     }
 
-    return nodes.length > 0 ? nodes : [revisedText]
+    return nodes.length > 0 ? nodes : [slice(0, revisedText.length)]
 }
 
+// Renders a diff of the input and the revised text. Inline shows deletions and insertions together;
+// side by side renders the original column without insertions and the revised column without deletions.
+function renderDiff(segments: DiffSegment[], side: 'inline' | 'original' | 'revised', activeChangeId: string | null): React.ReactNode[] {
+    return segments.map((segment, i) => {
+        if (segment.op === 'equal') return <span key={i}>{segment.text}</span>
+        if (segment.op === 'delete' && side === 'revised') return null
+        if (segment.op === 'insert' && side === 'original') return null
+        const isActive = segment.changeId !== null && activeChangeId === segment.changeId
+        const unexplained = segment.changeId === null
+        return (
+            <span
+                key={i}
+                data-change-id={segment.changeId ?? undefined}
+                title={unexplained ? 'Not reported as a change' : undefined}
+                className={`transition-all ${unexplained ? '' : 'cursor-pointer'} ${segment.op === 'delete' ? 'line-through text-red-300 bg-red-50/60' : 'text-red-600 bg-red-50/60'} ${unexplained ? 'outline-dashed outline-1 outline-red-200' : ''} ${isActive ? 'underline font-semibold' : ''}`}
+            >
+                {segment.text}
+            </span>
+        )
+    })
+}
+
+// The change a highlighted span in the revised panel belongs to, if the event came from one
+function changeIdAt(target: EventTarget): string | null {
+    return (target as HTMLElement).closest?.('[data-change-id]')?.getAttribute('data-change-id') ?? null
+}
+
+// Turns an error body from /api/rewrite (or an `error` stream event) into a user-facing message
+function describeRewriteError(status: number, errorData: any): string {
+    let errorMessage = errorData?.error?.message || 'An error occurred while processing your text.'
+    const errorType = errorData?.error?.type || 'unknown'
+
+    if (errorData?.scope === 'unavailable') {
+        errorMessage = 'The service is temporarily unavailable. Please try again shortly.'
+    } else if (status === 429 || errorType === 'rate_limit') {
+        const scope = errorData?.scope
+        const seconds = errorData?.retry_after_seconds || 60
+        if (scope === 'user_day') {
+            const hours = Math.ceil(seconds / 3600)
+            errorMessage = `Daily limit reached. Please try again in about ${hours} ${hours === 1 ? 'hour' : 'hours'}.`
+        } else if (scope === 'user_30s') {
+            errorMessage = `Slow down! Please wait ${seconds} seconds before your next request.`
+        } else {
+            errorMessage = 'Rate limit reached. Please wait a moment and try again.'
+        }
+    }
+    return errorMessage
+}
 
 export default function Home() {
-    const { session, pushHistory, clearSession, touch, isLoading } = useSession()
+    const { session, pushHistory, updateHistory, clearSession, touch, isLoading } = useSession()
     const [isQueued, setIsQueued] = useState(false)
     const debounceTimeoutRef = useRef<NodeJS.Timeout | null>(null)
 
@@ -83,8 +152,66 @@ export default function Home() {
     const [loading, setLoading] = useState(false)
     const [error, setError] = useState<string | null>(null)
     const [result, setResult] = useState<RewriteResponse | null>(null)
-    const [activeChangeId, setActiveChangeId] = useState<string | null>(null)
+    const [preview, setPreview] = useState<RewriteResponse | null>(null) // streamed, not yet final
+    const [activeChangeId, setActiveChangeId] = useState<string | null>(null) // hovered
+    const [selectedChangeId, setSelectedChangeId] = useState<string | null>(null) // clicked or reached with the keyboard
+    const [announcement, setAnnouncement] = useState('') // ARIA live region
+    const changeItemRefs = useRef(new Map<string, HTMLLIElement>())
+    const revisedPanelRef = useRef<HTMLDivElement | null>(null)
     const [showHighlights, setShowHighlights] = useState(true)
+    const [decisions, setDecisions] = useState<ChangeDecisions>({})
+    const [historyId, setHistoryId] = useState<string | null>(null)
+    const [documentMode, setDocumentMode] = useState(false)
+    const [resultInput, setResultInput] = useState('') // the text that produced `result`
+    const [docxParagraphs, setDocxParagraphs] = useState<DocxParagraph[] | null>(null)
+    const fileInputRef = useRef<HTMLInputElement | null>(null)
+    const [profiles, setProfiles] = useState<{ id: string; name: string }[]>([])
+    const [profileId, setProfileId] = useState<string>('')
+    // Rich text: the input is inline Markdown (*italic*, **bold**, [small caps]{.smallcaps}); pasted HTML is converted to it
+    const [richText, setRichText] = useState(false)
+    const [dailyQuota, setDailyQuota] = useState<{ limit: number; remaining: number } | null>(null)
+    const [user, setUser] = useState<{ id: string; name: string } | null>(null)
+    // 'changes' highlights the reported changes; the diff views show every edit, reported or not
+    const [viewMode, setViewMode] = useState<'changes' | 'inline' | 'split'>('changes')
+    const [diffGranularity, setDiffGranularity] = useState<DiffGranularity>('word')
+    const [editing, setEditing] = useState(false) // the revised text is being edited by hand
+    const [checkedText, setCheckedText] = useState('') // the revised text as last checked by the server
+    const [rechecking, setRechecking] = useState(false)
+
+    // Signed-in account, for the header (null when authentication is disabled)
+    useEffect(() => {
+        fetch('/api/auth/session')
+            .then(res => res.ok ? res.json() : null)
+            .then(data => setUser(data?.user || null))
+            .catch(() => { })
+    }, [])
+
+    const handleSignOut = async () => {
+        await fetch('/api/auth/logout', { method: 'POST' }).catch(() => { })
+        window.location.href = '/unlock'
+    }
+
+    // Remaining daily quota; refreshed after every rewrite
+    const refreshQuota = () => {
+        fetch('/api/ratelimit')
+            .then(res => res.ok ? res.json() : null)
+            .then(data => setDailyQuota(data?.quotas?.user_day || null))
+            .catch(() => { })
+    }
+    useEffect(refreshQuota, [])
+
+    // Style profiles offered by the server
+    useEffect(() => {
+        fetch('/api/profiles')
+            .then(res => res.ok ? res.json() : null)
+            .then(data => {
+                if (!data) return
+                setProfiles(data.profiles)
+                const saved = localStorage.getItem('cmos:profile')
+                setProfileId(data.profiles.some((p: { id: string }) => p.id === saved) ? saved : data.default)
+            })
+            .catch(() => { })
+    }, [])
 
     // Draft persistence
     useEffect(() => {
@@ -128,73 +255,82 @@ export default function Home() {
         setIsQueued(false)
         setError(null)
         setResult(null)
+        setPreview(null)
         setActiveChangeId(null)
+        setSelectedChangeId(null)
+        setDecisions({})
+        setHistoryId(null)
+        setEditing(false)
 
         const abortController = new AbortController()
         abortControllerRef.current = abortController
 
+        // Documents are processed paragraph by paragraph, so they get a longer budget
+        const timeoutSeconds = documentMode ? 180 : 30
         const timeoutId = setTimeout(() => {
             abortController.abort()
-        }, 30000)
+        }, timeoutSeconds * 1000)
 
         try {
-            const response = await fetch('/api/rewrite', {
+            const response = await fetch('/api/rewrite/stream', {
                 method: 'POST',
                 headers: {
                     'Content-Type': 'application/json',
                 },
-                body: JSON.stringify({ text: textToSend }),
+                body: JSON.stringify({ text: textToSend, mode: documentMode ? 'document' : 'paragraph', profile: profileId || undefined, format: richText ? 'markdown' : undefined }),
                 signal: abortController.signal,
             })
 
-            clearTimeout(timeoutId)
-
-            if (!response.ok) {
-                let errorMessage = 'An error occurred while processing your text.'
-                let errorType = 'unknown'
+            if (!response.ok || !response.body) {
                 let errorData: any = null
-
                 try {
                     errorData = await response.json()
-                    if (errorData.error?.message) {
-                        errorMessage = errorData.error.message
-                    }
-                    if (errorData.error?.type) {
-                        errorType = errorData.error.type
-                    }
                 } catch {
-                    errorMessage = `Error: ${response.status} ${response.statusText}`
+                    throw new Error(`Error: ${response.status} ${response.statusText}`)
                 }
+                throw new Error(describeRewriteError(response.status, errorData))
+            }
 
-                if (response.status === 429 || errorType === 'rate_limit') {
-                    const scope = errorData?.scope
-                    const seconds = errorData?.retry_after_seconds || 60
-                    if (scope === 'user_day') {
-                        const hours = Math.ceil(seconds / 3600)
-                        errorMessage = `Daily limit reached. Please try again in about ${hours} ${hours === 1 ? 'hour' : 'hours'}.`
-                    } else if (scope === 'user_30s') {
-                        errorMessage = `Slow down! Please wait ${seconds} seconds before your next request.`
+            // NDJSON: one event per line, rendered as it arrives
+            const reader = response.body.getReader()
+            const decoder = new TextDecoder()
+            let buffered = ''
+            while (true) {
+                const { value, done } = await reader.read()
+                if (done) break
+                buffered += decoder.decode(value, { stream: true })
+                const lines = buffered.split('\n')
+                buffered = lines.pop() || ''
+                for (const line of lines) {
+                    if (!line.trim()) continue
+                    const event: RewriteStreamEvent = JSON.parse(line)
+                    if (event.type === 'progress') {
+                        setPreview(event.preview)
+                    } else if (event.type === 'error') {
+                        throw new Error(describeRewriteError(event.status, event.body))
                     } else {
-                        errorMessage = 'Rate limit reached. Please wait a moment and try again.'
+                        setPreview(null)
+                        setResult(event.result)
+                        setResultInput(textToSend)
+                        setCheckedText(event.result.revised_text)
+                        setHistoryId(pushHistory(textToSend, event.result, event.headers['X-Provider']))
+                        return
                     }
                 }
-                throw new Error(errorMessage)
             }
-
-            const data: RewriteResponse = await response.json()
-            setResult(data)
-            pushHistory(textToSend, data, response.headers.get('X-Provider') || undefined)
-            return
+            throw new Error('The connection closed before the rewrite finished.')
         } catch (err: any) {
             if (err instanceof Error && err.name === 'AbortError') {
-                setError('Timed out after 30 seconds.')
+                setError(`Timed out after ${timeoutSeconds} seconds.`)
             } else {
                 setError(err instanceof Error ? err.message : 'An error occurred.')
             }
         } finally {
             clearTimeout(timeoutId)
+            setPreview(null)
             setLoading(false)
             abortControllerRef.current = null
+            refreshQuota()
         }
     }
 
@@ -210,17 +346,186 @@ export default function Home() {
         }, 1200)
     }
 
+    // Final text = original + accepted changes only
+    const reviewed = useMemo(() => {
+        if (!result) return null
+        return applyDecisions(result, decisions)
+    }, [result, decisions])
+
+    const updateDecisions = (next: ChangeDecisions) => {
+        setDecisions(next)
+        if (result && historyId) {
+            updateHistory(historyId, result, next)
+        }
+    }
+
+    const handleDecision = (changeId: string, decision: ChangeDecision) => {
+        if (decision === 'rejected' && activeChangeId === changeId) setActiveChangeId(null)
+        updateDecisions({ ...decisions, [changeId]: decision })
+    }
+
+    const handleDecisionForType = (type: ChangeType, decision: ChangeDecision) => {
+        if (!result) return
+        updateDecisions(decideAllOfType(result.changes, decisions, type, decision))
+    }
+
+    // Editing starts from the reviewed text: the decisions so far are applied and cleared
+    const handleStartEditing = () => {
+        if (!result || !reviewed) return
+        if (checkedText === result.revised_text) setCheckedText(reviewed.revised_text)
+        setResult(reviewed)
+        setDecisions({})
+        setSelectedChangeId(null)
+        setViewMode('changes')
+        setEditing(true)
+    }
+
+    const handleFinishEditing = () => {
+        setEditing(false)
+        if (result && historyId) updateHistory(historyId, result)
+    }
+
+    // Every keystroke carries the reported changes along with the text
+    const handleEditRevised = (text: string) => {
+        setResult(prev => prev && { revised_text: text, changes: reprojectChanges(prev.changes, prev.revised_text, text) })
+    }
+
+    // The sentences edited by hand since the last check, in `result.revised_text`
+    const pendingRanges = useMemo(() => {
+        if (!result || !checkedText) return []
+        return editedRanges(checkedText, result.revised_text)
+    }, [result, checkedText])
+
+    // Sends only the edited sentences through the pipeline and merges what it finds
+    const handleRecheck = async () => {
+        if (!result || !reviewed || pendingRanges.length === 0 || rechecking) return
+        const ranges = pendingRanges
+            .map(r => Object.keys(decisions).length ? projectCoordinates(r.start, r.end, result.revised_text, reviewed.revised_text) : r)
+            .filter((r): r is { start: number; end: number } => r !== null)
+        if (ranges.length === 0) return
+
+        setRechecking(true)
+        setError(null)
+        try {
+            const response = await fetch('/api/rewrite', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ text: recheckText(reviewed.revised_text, ranges), mode: 'document', profile: profileId || undefined, format: richText ? 'markdown' : undefined }),
+            })
+            let data: any = null
+            try {
+                data = await response.json()
+            } catch {
+                throw new Error(`Error: ${response.status} ${response.statusText}`)
+            }
+            if (!response.ok) throw new Error(describeRewriteError(response.status, data))
+
+            const pieces = splitRecheckResult(data as RewriteResponse, ranges.length)
+            if (!pieces) throw new Error('The re-check changed the paragraph breaks, so it could not be merged. Edit the text and try again.')
+            const merged = mergeRecheck(reviewed, ranges, pieces)
+            const added = merged.changes.length - reviewed.changes.length
+            setResult(merged)
+            setDecisions({})
+            setCheckedText(merged.revised_text)
+            setSelectedChangeId(null)
+            if (historyId) updateHistory(historyId, merged)
+            setAnnouncement(`Re-checked ${ranges.length} ${ranges.length === 1 ? 'passage' : 'passages'}: ${added} new ${added === 1 ? 'change' : 'changes'}.`)
+        } catch (err: any) {
+            setError(err instanceof Error ? err.message : 'The re-check failed.')
+        } finally {
+            setRechecking(false)
+            refreshQuota()
+        }
+    }
+
+    const changeTypeCounts = useMemo(() => {
+        const counts = new Map<ChangeType, number>()
+        for (const change of result?.changes || []) {
+            counts.set(change.type, (counts.get(change.type) || 0) + 1)
+        }
+        return Array.from(counts.entries())
+    }, [result])
+
     const handleCopy = () => {
-        if (result?.revised_text) {
-            navigator.clipboard.writeText(result.revised_text)
+        if (!reviewed?.revised_text) return
+        if (!richText) {
+            navigator.clipboard.writeText(reviewed.revised_text)
+            return
+        }
+        // Rich text for word processors, with the unformatted text as the plain-text fallback
+        const item = new ClipboardItem({
+            'text/html': new Blob([markdownToHtml(reviewed.revised_text)], { type: 'text/html' }),
+            'text/plain': new Blob([markdownToPlainText(reviewed.revised_text)], { type: 'text/plain' }),
+        })
+        navigator.clipboard.write([item]).catch(() => navigator.clipboard.writeText(reviewed.revised_text))
+    }
+
+    const handleCopyMarkdown = () => {
+        if (reviewed?.revised_text) {
+            navigator.clipboard.writeText(reviewed.revised_text)
+        }
+    }
+
+    // In rich-text mode, formatted pastes (Word, Google Docs, web pages) keep their italics, bold and small caps
+    const handlePaste = (e: React.ClipboardEvent<HTMLTextAreaElement>) => {
+        const html = richText ? e.clipboardData.getData('text/html') : ''
+        if (!html) return
+        e.preventDefault()
+        const target = e.currentTarget
+        const markdown = htmlToMarkdown(html)
+        setInputText(target.value.slice(0, target.selectionStart) + markdown + target.value.slice(target.selectionEnd))
+    }
+
+    const handleUpload = async (file: File) => {
+        setError(null)
+        const form = new FormData()
+        form.append('file', file)
+        try {
+            const response = await fetch('/api/docx/import', { method: 'POST', body: form })
+            const data = await response.json()
+            if (!response.ok) throw new Error(data.error?.message || 'Could not read this .docx file.')
+            setInputText(data.text)
+            setDocxParagraphs(data.paragraphs)
+            setDocumentMode(true)
+            setResult(null)
+        } catch (err: any) {
+            setError(err instanceof Error ? err.message : 'Could not read this .docx file.')
+        } finally {
+            if (fileInputRef.current) fileInputRef.current.value = ''
+        }
+    }
+
+    const handleExportDocx = async () => {
+        if (!reviewed) return
+        setError(null)
+        try {
+            const response = await fetch('/api/docx/export', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ original: resultInput, paragraphs: docxParagraphs || undefined, result: reviewed }),
+            })
+            if (!response.ok) throw new Error('Export failed. Please try again.')
+            const url = URL.createObjectURL(await response.blob())
+            const link = document.createElement('a')
+            link.href = url
+            link.download = 'revised.docx'
+            link.click()
+            URL.revokeObjectURL(url)
+        } catch (err: any) {
+            setError(err instanceof Error ? err.message : 'Export failed.')
         }
     }
 
     const handleClear = () => {
         setInputText('')
+        setDocxParagraphs(null)
         setResult(null)
         setError(null)
         setActiveChangeId(null)
+        setSelectedChangeId(null)
+        setDecisions({})
+        setHistoryId(null)
+        setEditing(false)
         sessionStorage.removeItem('cmos:draft:v1')
         if (debounceTimeoutRef.current) clearTimeout(debounceTimeoutRef.current)
         setIsQueued(false)
@@ -231,24 +536,76 @@ export default function Home() {
             clearSession()
             setResult(null)
             setInputText('')
+            setDocxParagraphs(null)
         }
     }
 
     const handleSelectHistory = (item: HistoryItem) => {
         setInputText(item.input)
         setResult(item.output)
+        setResultInput(item.input)
+        setCheckedText(item.output.revised_text)
+        setDecisions(item.decisions || {})
+        setSelectedChangeId(null)
+        setEditing(false)
+        setHistoryId(item.id)
         touch()
     }
 
+    // While streaming, the latest preview stands in for the final result
+    const displayed = reviewed || preview
+    const listed = result || preview
+    // Unlocated and overlapping changes stay in the text, so they cannot be accepted or rejected
+    const revertible = listed ? revertibleChangeIds(listed.changes) : new Set<string>()
+    const highlightedChangeId = activeChangeId ?? selectedChangeId
+
+    const selectChange = (changeId: string | null, prefix = '') => {
+        setSelectedChangeId(changeId)
+        const index = listed && changeId ? listed.changes.findIndex(c => c.change_id === changeId) : -1
+        setAnnouncement(prefix + (index !== -1 ? describeChange(listed!.changes[index], index, listed!.changes.length) : ''))
+    }
+
+    // Brings the selected change into view, in the revised panel first, then in the list
+    useEffect(() => {
+        if (!selectedChangeId) return
+        revisedPanelRef.current?.querySelector(`[data-change-id="${selectedChangeId}"]`)?.scrollIntoView({ block: 'nearest' })
+        changeItemRefs.current.get(selectedChangeId)?.scrollIntoView({ block: 'nearest', behavior: 'smooth' })
+    }, [selectedChangeId])
+
+    // Review shortcuts: J/K next/previous change, A accept, R reject (both move on), H highlights, Esc deselect
+    useEffect(() => {
+        const onKeyDown = (e: KeyboardEvent) => {
+            if (e.metaKey || e.ctrlKey || e.altKey || !listed) return
+            if ((e.target as HTMLElement).closest?.('input, textarea, select, [contenteditable="true"]')) return
+            const action = reviewShortcut(e.key, { changes: listed.changes, selectedChangeId, canDecide: !!result, showHighlights })
+            if (!action) return
+            if (action.decide) handleDecision(action.decide.changeId, action.decide.decision)
+            if (action.toggleHighlights) setShowHighlights(!showHighlights)
+            if (action.select !== undefined) setSelectedChangeId(action.select)
+            setAnnouncement(action.announcement)
+            e.preventDefault()
+        }
+        window.addEventListener('keydown', onKeyDown)
+        return () => window.removeEventListener('keydown', onKeyDown)
+    })
+
     const renderedText = useMemo(() => {
-        if (!result) return null
+        if (!displayed) return null
         return renderRevisedText(
-            result.revised_text,
-            result.changes,
+            displayed.revised_text,
+            displayed.changes,
             showHighlights,
-            activeChangeId
+            highlightedChangeId,
+            richText
         )
-    }, [result, showHighlights, activeChangeId])
+    }, [displayed, showHighlights, highlightedChangeId, richText])
+
+    // Diffs the input against the reviewed text; only for a finished result, whose input is known
+    const diffSegments = useMemo(() => {
+        if (!reviewed || viewMode === 'changes') return null
+        return diffTexts(resultInput, reviewed.revised_text, diffGranularity, reviewed.changes)
+    }, [reviewed, resultInput, viewMode, diffGranularity])
+    const unexplainedEdits = useMemo(() => diffSegments ? countUnexplained(diffSegments) : 0, [diffSegments])
 
     return (
         <div className="min-h-screen bg-[#fcfbf7] p-8 font-ui text-[#1a1a1a]">
@@ -287,11 +644,25 @@ export default function Home() {
                         >
                             CMoS ONLINE
                         </a>
+                        {user && (
+                            <>
+                                <span className="text-gray-200">|</span>
+                                <button
+                                    onClick={handleSignOut}
+                                    title={`Signed in as ${user.name}`}
+                                    className="text-xs tracking-widest text-gray-500 hover:text-brand-red transition-colors font-medium"
+                                >
+                                    SIGN OUT
+                                </button>
+                            </>
+                        )}
                     </div>
                 </div>
 
                 <div className="border-b border-gray-100 mb-10"></div>
 
+                <div role="status" aria-live="polite" className="sr-only">{announcement}</div>
+
                 {error && (
                     <div className="mb-8 p-4 bg-red-50/50 border border-red-100 text-red-800 rounded-sm font-ui text-sm">
                         {error}
@@ -301,22 +672,63 @@ export default function Home() {
                 {(loading || isQueued) && (
                     <div className="mb-8 p-4 bg-gray-50/50 border border-gray-100 text-gray-600 rounded-sm font-ui text-sm flex items-center gap-3">
                         <div className="w-2 h-2 bg-brand-red rounded-full animate-pulse"></div>
-                        {isQueued ? 'Queued... (Waiting for typing to stop)' : 'Processing your text...'}
+                        {isQueued
+                            ? 'Queued... (Waiting for typing to stop)'
+                            : preview
+                                ? `Processing your text... ${preview.changes.length} ${preview.changes.length === 1 ? 'change' : 'changes'} so far`
+                                : 'Processing your text...'}
                     </div>
                 )}
 
                 <div className="grid grid-cols-1 lg:grid-cols-2 gap-12 mb-10">
                     <div className="flex flex-col min-h-[28rem]">
                         <div className="flex justify-between items-center mb-4">
-                            <label className="text-xs uppercase tracking-widest font-semibold text-gray-500">Original Paragraph</label>
-                            <button onClick={handleClear} className="inline-flex items-center gap-1.5 px-3 py-1.5 text-xs uppercase tracking-widest text-gray-500 hover:text-gray-900 hover:bg-gray-100 rounded transition-all">
-                                <X className="w-3.5 h-3.5" /> Clear
-                            </button>
+                            <label className="text-xs uppercase tracking-widest font-semibold text-gray-500">{documentMode ? 'Original Document' : 'Original Paragraph'}</label>
+                            <div className="flex items-center gap-6">
+                                {profiles.length > 1 && (
+                                    <select
+                                        value={profileId}
+                                        onChange={(e) => { setProfileId(e.target.value); localStorage.setItem('cmos:profile', e.target.value) }}
+                                        aria-label="Style profile"
+                                        className="text-xs uppercase tracking-widest text-gray-500 font-medium bg-transparent border-none focus:ring-0 cursor-pointer hover:text-gray-900"
+                                    >
+                                        {profiles.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                                    </select>
+                                )}
+                                <label className="flex items-center gap-3 cursor-pointer">
+                                    <span className="text-xs uppercase tracking-widest text-gray-500 font-medium">Document mode</span>
+                                    <input type="checkbox" checked={documentMode} onChange={(e) => setDocumentMode(e.target.checked)} className="sr-only peer" />
+                                    <div className="relative w-10 h-5 bg-gray-200 rounded-full peer-checked:bg-brand-red transition-colors duration-200">
+                                        <div className={`absolute top-[2px] left-[2px] w-4 h-4 bg-white rounded-full transition-transform duration-200 ${documentMode ? 'translate-x-5' : 'translate-x-0'}`}></div>
+                                    </div>
+                                </label>
+                                <label className="flex items-center gap-3 cursor-pointer" title="Keep italics, bold and small caps (Markdown; formatted pastes are converted)">
+                                    <span className="text-xs uppercase tracking-widest text-gray-500 font-medium">Rich text</span>
+                                    <input type="checkbox" checked={richText} onChange={(e) => setRichText(e.target.checked)} className="sr-only peer" />
+                                    <div className="relative w-10 h-5 bg-gray-200 rounded-full peer-checked:bg-brand-red transition-colors duration-200">
+                                        <div className={`absolute top-[2px] left-[2px] w-4 h-4 bg-white rounded-full transition-transform duration-200 ${richText ? 'translate-x-5' : 'translate-x-0'}`}></div>
+                                    </div>
+                                </label>
+                                <input
+                                    ref={fileInputRef}
+                                    type="file"
+                                    accept=".docx,application/vnd.openxmlformats-officedocument.wordprocessingml.document"
+                                    onChange={(e) => e.target.files?.[0] && handleUpload(e.target.files[0])}
+                                    className="hidden"
+                                />
+                                <button onClick={() => fileInputRef.current?.click()} className="inline-flex items-center gap-1.5 px-3 py-1.5 text-xs uppercase tracking-widest text-gray-500 hover:text-gray-900 hover:bg-gray-100 rounded transition-all">
+                                    <Upload className="w-3.5 h-3.5" /> .docx
+                                </button>
+                                <button onClick={handleClear} className="inline-flex items-center gap-1.5 px-3 py-1.5 text-xs uppercase tracking-widest text-gray-500 hover:text-gray-900 hover:bg-gray-100 rounded transition-all">
+                                    <X className="w-3.5 h-3.5" /> Clear
+                                </button>
+                            </div>
                         </div>
                         <textarea
                             value={inputText}
                             onChange={(e) => setInputText(e.target.value)}
-                            placeholder="Paste your manuscript excerpt here…"
+                            onPaste={handlePaste}
+                            placeholder={documentMode ? 'Paste a full chapter here; each paragraph is edited separately…' : 'Paste your manuscript excerpt here…'}
                             className="w-full flex-1 min-h-[20rem] p-6 border border-gray-200/60 rounded-sm font-academic text-gray-900 leading-relaxed resize-none focus:outline-none focus:border-brand-red/30 focus:ring-0 mb-6 text-lg transition-all placeholder:text-gray-300"
                         />
                         <button
@@ -326,46 +738,152 @@ export default function Home() {
                         >
                             {loading ? 'Analyzing...' : 'Apply Chicago Style'}
                         </button>
+                        {dailyQuota && (
+                            <p className="mt-3 text-center text-[11px] uppercase tracking-widest text-gray-400">
+                                {dailyQuota.remaining} of {dailyQuota.limit} left today
+                            </p>
+                        )}
                     </div>
 
                     <div className="flex flex-col min-h-[28rem]">
                         <div className="flex justify-between items-center mb-4">
-                            <label className="text-xs uppercase tracking-widest font-semibold text-gray-500">Revised Paragraph</label>
+                            <label className="text-xs uppercase tracking-widest font-semibold text-gray-500">{documentMode ? 'Revised Document' : 'Revised Paragraph'}</label>
                             {result && (
                                 <div className="flex items-center gap-6">
-                                    <label className="flex items-center gap-3 cursor-pointer group">
+                                    <select
+                                        value={viewMode}
+                                        onChange={(e) => setViewMode(e.target.value as typeof viewMode)}
+                                        aria-label="View"
+                                        className="text-xs uppercase tracking-widest text-gray-500 font-medium bg-transparent border-none focus:ring-0 cursor-pointer hover:text-gray-900"
+                                    >
+                                        <option value="changes">Changes</option>
+                                        <option value="inline">Diff: inline</option>
+                                        <option value="split">Diff: side by side</option>
+                                    </select>
+                                    {viewMode !== 'changes' && (
+                                        <select
+                                            value={diffGranularity}
+                                            onChange={(e) => setDiffGranularity(e.target.value as DiffGranularity)}
+                                            aria-label="Diff granularity"
+                                            className="text-xs uppercase tracking-widest text-gray-500 font-medium bg-transparent border-none focus:ring-0 cursor-pointer hover:text-gray-900"
+                                        >
+                                            <option value="word">Words</option>
+                                            <option value="char">Characters</option>
+                                        </select>
+                                    )}
+                                    {viewMode === 'changes' && <label className="flex items-center gap-3 cursor-pointer group">
                                         <Eye className="w-4 h-4 text-gray-400 group-hover:text-brand-red transition-colors" />
                                         <span className="text-xs uppercase tracking-widest text-gray-500 font-medium">Show highlights</span>
                                         <input type="checkbox" checked={showHighlights} onChange={(e) => setShowHighlights(e.target.checked)} className="sr-only peer" />
                                         <div className="relative w-10 h-5 bg-gray-200 rounded-full peer-checked:bg-brand-red transition-colors duration-200">
                                             <div className={`absolute top-[2px] left-[2px] w-4 h-4 bg-white rounded-full transition-transform duration-200 ${showHighlights ? 'translate-x-5' : 'translate-x-0'}`}></div>
                                         </div>
-                                    </label>
+                                    </label>}
+                                    {editing ? (
+                                        <button onClick={handleFinishEditing} className="inline-flex items-center gap-1.5 px-3 py-1.5 text-xs uppercase tracking-widest text-gray-500 hover:text-gray-900 hover:bg-gray-100 rounded transition-all">
+                                            <Check className="w-3.5 h-3.5" /> Done
+                                        </button>
+                                    ) : (
+                                        <button onClick={handleStartEditing} title="Edit the revised text by hand" className="inline-flex items-center gap-1.5 px-3 py-1.5 text-xs uppercase tracking-widest text-gray-500 hover:text-gray-900 hover:bg-gray-100 rounded transition-all">
+                                            <Pencil className="w-3.5 h-3.5" /> Edit
+                                        </button>
+                                    )}
+                                    {pendingRanges.length > 0 && (
+                                        <button onClick={handleRecheck} disabled={rechecking} title="Check only the sentences edited by hand" className="inline-flex items-center gap-1.5 px-3 py-1.5 text-xs uppercase tracking-widest text-brand-red hover:bg-gray-100 rounded transition-all disabled:opacity-50">
+                                            <RefreshCw className={`w-3.5 h-3.5 ${rechecking ? 'animate-spin' : ''}`} /> Re-check ({pendingRanges.length})
+                                        </button>
+                                    )}
                                     <button onClick={handleCopy} className="inline-flex items-center gap-1.5 px-3 py-1.5 text-xs uppercase tracking-widest text-gray-500 hover:text-gray-900 hover:bg-gray-100 rounded transition-all">
                                         <Copy className="w-3.5 h-3.5" /> Copy
                                     </button>
+                                    {richText && (
+                                        <button onClick={handleCopyMarkdown} className="inline-flex items-center gap-1.5 px-3 py-1.5 text-xs uppercase tracking-widest text-gray-500 hover:text-gray-900 hover:bg-gray-100 rounded transition-all">
+                                            <Copy className="w-3.5 h-3.5" /> Markdown
+                                        </button>
+                                    )}
+                                    {!richText && <button onClick={handleExportDocx} title="Download as .docx with tracked changes" className="inline-flex items-center gap-1.5 px-3 py-1.5 text-xs uppercase tracking-widest text-gray-500 hover:text-gray-900 hover:bg-gray-100 rounded transition-all">
+                                        <FileDown className="w-3.5 h-3.5" /> .docx
+                                    </button>}
                                 </div>
                             )}
                         </div>
-                        <div className="w-full flex-1 min-h-[20rem] p-6 border border-gray-200/60 rounded-sm font-academic text-gray-900 leading-relaxed bg-[#fefefe] shadow-inner-sm overflow-y-auto text-lg selection:bg-red-50">
-                            {result ? <div>{renderedText}</div> : <div className="text-gray-300 italic text-sm font-ui">Analytical output will appear here...</div>}
-                        </div>
+                        {editing && result ? (
+                            <textarea
+                                value={result.revised_text}
+                                onChange={(e) => handleEditRevised(e.target.value)}
+                                aria-label="Revised text"
+                                autoFocus
+                                className="w-full flex-1 min-h-[20rem] p-6 border border-brand-red/30 rounded-sm font-academic text-gray-900 leading-relaxed resize-none focus:outline-none focus:ring-0 bg-[#fefefe] text-lg"
+                            />
+                        ) : <div
+                            ref={revisedPanelRef}
+                            onMouseOver={(e) => setActiveChangeId(changeIdAt(e.target))}
+                            onMouseLeave={() => setActiveChangeId(null)}
+                            onClick={(e) => { const id = changeIdAt(e.target); if (id) selectChange(id) }}
+                            className="w-full flex-1 min-h-[20rem] p-6 border border-gray-200/60 rounded-sm font-academic text-gray-900 leading-relaxed bg-[#fefefe] shadow-inner-sm overflow-y-auto text-lg selection:bg-red-50"
+                        >
+                            {diffSegments && viewMode === 'split' ? (
+                                <div className="grid grid-cols-2 gap-6">
+                                    {(['original', 'revised'] as const).map(side => (
+                                        <div key={side}>
+                                            <div className="mb-2 text-[10px] uppercase tracking-widest font-semibold text-gray-400 font-ui">{side}</div>
+                                            <div className="whitespace-pre-wrap">{renderDiff(diffSegments, side, highlightedChangeId)}</div>
+                                        </div>
+                                    ))}
+                                </div>
+                            ) : diffSegments ? (
+                                <div className="whitespace-pre-wrap">{renderDiff(diffSegments, 'inline', highlightedChangeId)}</div>
+                            ) : displayed ? <div className={`whitespace-pre-wrap ${result ? '' : 'opacity-70'}`}>{renderedText}</div> : <div className="text-gray-300 italic text-sm font-ui">Analytical output will appear here...</div>}
+                        </div>}
+                        {unexplainedEdits > 0 && (
+                            <p className="mt-3 text-[11px] uppercase tracking-widest text-gray-400">
+                                {unexplainedEdits} {unexplainedEdits === 1 ? 'edit' : 'edits'} not reported as a change (dashed)
+                            </p>
+                        )}
                     </div>
                 </div>
 
-                {result && (
+                {listed && (
                     <div className="mt-12 mb-20 animate-in fade-in slide-in-from-bottom-4 duration-700">
-                        <h2 className="text-xl font-academic font-normal mb-6 text-gray-900 border-b border-gray-100 pb-2">Technical Revisions</h2>
-                        {result.changes.length > 0 ? (
-                            <ul className="space-y-4">
-                                {result.changes.map((change) => {
+                        <div className="flex items-baseline justify-between mb-6 border-b border-gray-100 pb-2">
+                            <h2 className="text-xl font-academic font-normal text-gray-900">Technical Revisions</h2>
+                            {listed.changes.length > 0 && (
+                                <p className="text-[10px] uppercase tracking-widest text-gray-400 font-ui">
+                                    J / K move · A accept · R reject · H highlights · Esc deselect
+                                </p>
+                            )}
+                        </div>
+                        {changeTypeCounts.length > 0 && (
+                            <div className="flex flex-wrap items-center gap-x-6 gap-y-2 mb-6">
+                                {changeTypeCounts.map(([type, count]) => (
+                                    <div key={type} className="flex items-center gap-2 text-[10px] uppercase tracking-[0.15em] font-bold text-gray-400">
+                                        <span>{type === 'INSERT_AT_END' ? 'Punctuation' : type} ({count})</span>
+                                        <button onClick={() => handleDecisionForType(type, 'accepted')} title={`Accept all ${type} changes`} className="p-1 rounded hover:bg-gray-100 hover:text-gray-900 transition-all">
+                                            <Check className="w-3 h-3" />
+                                        </button>
+                                        <button onClick={() => handleDecisionForType(type, 'rejected')} title={`Reject all ${type} changes`} className="p-1 rounded hover:bg-gray-100 hover:text-brand-red transition-all">
+                                            <X className="w-3 h-3" />
+                                        </button>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                        {listed.changes.length > 0 ? (
+                            <ul className="space-y-4" aria-label="Technical revisions">
+                                {listed.changes.map((change) => {
                                     const hasLoc = Boolean(change.loc)
+                                    const accepted = isAccepted(decisions, change.change_id)
+                                    const linkable = hasLoc && accepted
+                                    const selected = selectedChangeId === change.change_id
                                     return (
                                         <li
                                             key={change.change_id}
-                                            onMouseEnter={() => hasLoc && setActiveChangeId(change.change_id)}
-                                            onMouseLeave={() => hasLoc && setActiveChangeId(null)}
-                                            className={`p-4 border-l-2 border-transparent transition-all hover:bg-white hover:shadow-sm ${hasLoc ? 'cursor-pointer' : 'opacity-60'} ${activeChangeId === change.change_id ? 'border-brand-red bg-white shadow-sm' : 'hover:border-gray-200'}`}
+                                            ref={(el) => { if (el) changeItemRefs.current.set(change.change_id, el); else changeItemRefs.current.delete(change.change_id) }}
+                                            aria-current={selected ? 'true' : undefined}
+                                            onMouseEnter={() => linkable && setActiveChangeId(change.change_id)}
+                                            onMouseLeave={() => linkable && setActiveChangeId(null)}
+                                            onClick={() => selectChange(change.change_id)}
+                                            className={`p-4 border-l-2 border-transparent transition-all hover:bg-white hover:shadow-sm ${linkable ? 'cursor-pointer' : 'opacity-60'} ${activeChangeId === change.change_id || selected ? 'border-brand-red bg-white shadow-sm' : 'hover:border-gray-200'}`}
                                         >
                                             <div className="flex flex-col gap-2">
                                                 <div className="flex flex-wrap items-center gap-3">
@@ -387,6 +905,26 @@ export default function Home() {
                                                         )}
                                                     </div>
                                                     {!hasLoc && <span className="text-[10px] uppercase tracking-wider text-gray-400 px-1.5 py-0.5 bg-gray-50 rounded-sm">unlocated</span>}
+                                                    {hasLoc && !revertible.has(change.change_id) && <span title="Overlaps another change, so it cannot be reverted on its own" className="text-[10px] uppercase tracking-wider text-gray-400 px-1.5 py-0.5 bg-gray-50 rounded-sm">can&apos;t revert</span>}
+                                                    {!accepted && <span className="text-[10px] uppercase tracking-wider text-brand-red px-1.5 py-0.5 bg-red-50/50 rounded-sm">rejected</span>}
+                                                    {revertible.has(change.change_id) && result && !editing && (
+                                                        <div className="ml-auto flex items-center gap-1">
+                                                            <button
+                                                                onClick={() => handleDecision(change.change_id, 'accepted')}
+                                                                title="Accept change"
+                                                                className={`p-1.5 rounded transition-all ${accepted ? 'text-gray-900 bg-gray-100' : 'text-gray-400 hover:text-gray-900 hover:bg-gray-100'}`}
+                                                            >
+                                                                <Check className="w-3.5 h-3.5" />
+                                                            </button>
+                                                            <button
+                                                                onClick={() => handleDecision(change.change_id, 'rejected')}
+                                                                title="Reject change"
+                                                                className={`p-1.5 rounded transition-all ${!accepted ? 'text-brand-red bg-red-50/50' : 'text-gray-400 hover:text-brand-red hover:bg-gray-100'}`}
+                                                            >
+                                                                <X className="w-3.5 h-3.5" />
+                                                            </button>
+                                                        </div>
+                                                    )}
                                                 </div>
                                                 <div className="text-[13px] text-gray-600 leading-relaxed font-ui">
                                                     {change.reason}
@@ -399,7 +937,7 @@ export default function Home() {
                                     )
                                 })}
                             </ul>
-                        ) : (
+                        ) : result && (
                             <div className="p-6 bg-green-50/30 border border-green-100/50 rounded-sm text-green-800 font-academic text-base italic">
                                 The text conforms to Chicago Style conventions. No technical revisions identified.
                             </div>
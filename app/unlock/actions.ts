@@ -1,27 +1,39 @@
 'use server'
 
-import { cookies } from 'next/headers'
+import { cookies, headers } from 'next/headers'
+import { SESSION_COOKIE, authenticate, beginLoginAttempt, recordLoginSuccess, sessionTtlSeconds, signSession } from '@/lib/auth'
+import { clientIp } from '@/lib/ratelimit'
 
-export async function verifyPassword(formData: FormData) {
-    const password = formData.get('password') as string
-    const expectedPassword = process.env.SITE_PASSWORD
+export async function signIn(formData: FormData) {
+    const username = String(formData.get('username') || '')
+    const password = String(formData.get('password') || '')
+    const ip = clientIp(headers())
 
-    if (!expectedPassword) {
-        console.error('SITE_PASSWORD environment variable is not set!')
+    if (!process.env.SESSION_SECRET) {
+        console.error('SESSION_SECRET environment variable is not set!')
         return { success: false, error: 'Configuration error. Please contact the administrator.' }
     }
 
-    if (password === expectedPassword) {
-        // Set cookie
-        cookies().set('cms_auth', '1', {
-            httpOnly: true,
-            secure: process.env.NODE_ENV === 'production',
-            sameSite: 'lax',
-            maxAge: 30 * 24 * 60 * 60, // 30 days
-            path: '/',
-        })
-        return { success: true }
+    const wait = await beginLoginAttempt(username, ip)
+    if (wait > 0) {
+        const minutes = Math.ceil(wait / 60)
+        return { success: false, error: `Too many failed attempts. Try again in ${minutes} ${minutes === 1 ? 'minute' : 'minutes'}.` }
     }
 
-    return { success: false, error: 'Incorrect password. access denied.' }
+    const user = await authenticate(username, password)
+    if (!user) {
+        console.warn(`[Auth] event=login_failed ip=${ip}`)
+        return { success: false, error: 'Incorrect username or password.' }
+    }
+
+    await recordLoginSuccess(username, ip)
+    cookies().set(SESSION_COOKIE, await signSession({ id: user.id, name: user.username }), {
+        httpOnly: true,
+        secure: process.env.NODE_ENV === 'production',
+        sameSite: 'lax',
+        maxAge: sessionTtlSeconds(),
+        path: '/',
+    })
+    console.log(`[Auth] event=login user_id=${user.id}`)
+    return { success: true }
 }
@@ -2,25 +2,27 @@
 
 import React, { useState, Suspense } from 'react'
 import { useRouter, useSearchParams } from 'next/navigation'
-import { verifyPassword } from './actions'
+import { signIn } from './actions'
 
 function UnlockForm() {
     const [error, setError] = useState<string | null>(null)
     const [loading, setLoading] = useState(false)
     const router = useRouter()
     const searchParams = useSearchParams()
-    const nextUrl = searchParams.get('next') || '/'
+    // Only same-site paths, so the login page can't be used as an open redirect
+    const next = searchParams.get('next')
+    const nextUrl = next && next.startsWith('/') && !next.startsWith('//') ? next : '/'
 
     async function handleSubmit(formData: FormData) {
         setLoading(true)
         setError(null)
 
         try {
-            const result = await verifyPassword(formData)
+            const result = await signIn(formData)
             if (result.success) {
                 router.push(nextUrl)
             } else {
-                setError(result.error || 'Invalid password')
+                setError(result.error || 'Invalid username or password')
             }
         } catch (e) {
             setError('An error occurred. Please try again.')
@@ -54,13 +56,22 @@ function UnlockForm() {
             </div>
 
             <form action={handleSubmit} className="space-y-6">
-                <div>
+                <div className="space-y-3">
+                    <input
+                        name="username"
+                        type="text"
+                        placeholder="Username"
+                        autoComplete="username"
+                        required
+                        autoFocus
+                        className="w-full p-4 border border-gray-200 rounded-sm focus:outline-none focus:border-brand-red/30 focus:ring-0 font-academic text-lg transition-all placeholder:text-gray-300"
+                    />
                     <input
                         name="password"
                         type="password"
-                        placeholder="Access Identifier"
+                        placeholder="Password"
+                        autoComplete="current-password"
                         required
-                        autoFocus
                         className="w-full p-4 border border-gray-200 rounded-sm focus:outline-none focus:border-brand-red/30 focus:ring-0 font-academic text-lg transition-all placeholder:text-gray-300"
                     />
                 </div>
@@ -77,7 +88,7 @@ function UnlockForm() {
                     className={`w-full py-4 rounded-sm text-white font-ui uppercase tracking-[0.2em] text-xs font-semibold shadow-sm transition-all ${loading ? 'bg-gray-200 cursor-not-allowed text-gray-400' : 'bg-brand-red hover:bg-brand-red-dark active:scale-[0.99]'
                         }`}
                 >
-                    {loading ? 'Verifying...' : 'Authorize Access'}
+                    {loading ? 'Verifying...' : 'Sign In'}
                 </button>
             </form>
         </div>
@@ -0,0 +1,37 @@
+import { createHmac, timingSafeEqual } from 'crypto'
+import { cookies } from 'next/headers'
+import { signSession, verifySession } from '@/lib/auth'
+
+export const ADMIN_COOKIE = 'cms_admin'
+export const ADMIN_SESSION_SECONDS = 12 * 60 * 60 // 12 hours
+
+// The admin cookie is a signed session (lib/auth) with the admin scope, so it expires like any
+// other. Its subject is keyed by ADMIN_PASSWORD: changing the password signs every admin out.
+function adminSubject(password: string): string {
+    return `admin:${createHmac('sha256', password).update('cms-admin').digest('hex').slice(0, 16)}`
+}
+
+function safeEqual(a: string, b: string): boolean {
+    const left = Buffer.from(a)
+    const right = Buffer.from(b)
+    return left.length === right.length && timingSafeEqual(left, right)
+}
+
+// Sessions are signed with SESSION_SECRET, so the dashboard needs both
+export function isAdminConfigured(): boolean {
+    return !!process.env.ADMIN_PASSWORD && !!process.env.SESSION_SECRET
+}
+
+// A session token for the admin cookie when `password` is right, null otherwise
+export async function adminTokenFor(password: string): Promise<string | null> {
+    const expected = process.env.ADMIN_PASSWORD
+    if (!expected || !safeEqual(password, expected)) return null
+    return signSession({ id: adminSubject(expected), name: 'admin' }, { scope: 'admin', ttlSeconds: ADMIN_SESSION_SECONDS })
+}
+
+export async function isAdmin(): Promise<boolean> {
+    const expected = process.env.ADMIN_PASSWORD
+    if (!expected) return false
+    const session = await verifySession(cookies().get(ADMIN_COOKIE)?.value, 'admin')
+    return !!session && safeEqual(session.sub, adminSubject(expected))
+}
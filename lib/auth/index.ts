@@ -0,0 +1,13 @@
+import { NextRequest } from 'next/server'
+import { SESSION_COOKIE, SessionPayload, authEnabled, verifySession } from './session'
+
+export type { SessionPayload } from './session'
+export type { LocalUser, UsersConfig } from './users'
+export { SESSION_COOKIE, authEnabled, sessionTtlSeconds, signSession, verifySession } from './session'
+export { authenticate, findUser, hashPassword, verifyPassword } from './users'
+export { beginLoginAttempt, recordLoginSuccess } from './throttle'
+
+/** The signed-in user of a request, or null. */
+export function sessionFromRequest(req: NextRequest): Promise<SessionPayload | null> {
+    return verifySession(req.cookies.get(SESSION_COOKIE)?.value)
+}
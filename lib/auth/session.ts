@@ -0,0 +1,70 @@
+// Signed session tokens: base64url(JSON payload).base64url(HMAC-SHA256(payload, SESSION_SECRET)).
+// Web Crypto only, so the middleware (edge runtime) and route handlers share this module.
+
+export const SESSION_COOKIE = 'cms_session'
+
+export type SessionPayload = {
+    sub: string // user id
+    name: string
+    iat: number // seconds since epoch
+    exp: number
+    scope?: 'admin' // admin dashboard sessions; absent for user sessions
+}
+
+// DISABLE_PASSWORD_GATE=1 turns authentication off entirely (local development)
+export function authEnabled(): boolean {
+    return process.env.DISABLE_PASSWORD_GATE !== '1'
+}
+
+export function sessionTtlSeconds(): number {
+    return Number(process.env.SESSION_TTL_SECONDS) || 7 * 24 * 60 * 60 // 7 days
+}
+
+function base64url(bytes: Uint8Array): string {
+    let binary = ''
+    for (const b of bytes) binary += String.fromCharCode(b)
+    return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+function fromBase64url(str: string): Uint8Array<ArrayBuffer> {
+    const binary = atob(str.replace(/-/g, '+').replace(/_/g, '/'))
+    return Uint8Array.from(binary, c => c.charCodeAt(0))
+}
+
+async function hmacKey(): Promise<CryptoKey | null> {
+    const secret = process.env.SESSION_SECRET
+    if (!secret) return null
+    return crypto.subtle.importKey('raw', new TextEncoder().encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign', 'verify'])
+}
+
+export async function signSession(user: { id: string; name: string }, opts: { scope?: SessionPayload['scope']; ttlSeconds?: number } = {}): Promise<string> {
+    const key = await hmacKey()
+    if (!key) throw new Error('SESSION_SECRET is not defined')
+    const now = Math.floor(Date.now() / 1000)
+    const payload: SessionPayload = { sub: user.id, name: user.name, iat: now, exp: now + (opts.ttlSeconds ?? sessionTtlSeconds()), ...(opts.scope ? { scope: opts.scope } : {}) }
+    const body = base64url(new TextEncoder().encode(JSON.stringify(payload)))
+    const signature = new Uint8Array(await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(body)))
+    return `${body}.${base64url(signature)}`
+}
+
+/**
+ * The payload of a well-signed, unexpired token of the given scope (a user session by default);
+ * null for anything else (including a missing SESSION_SECRET).
+ */
+export async function verifySession(token: string | undefined, scope?: SessionPayload['scope']): Promise<SessionPayload | null> {
+    if (!token) return null
+    const key = await hmacKey()
+    if (!key) return null
+    const [body, signature, extra] = token.split('.')
+    if (!body || !signature || extra !== undefined) return null
+    try {
+        const valid = await crypto.subtle.verify('HMAC', key, fromBase64url(signature), new TextEncoder().encode(body))
+        if (!valid) return null
+        const payload: SessionPayload = JSON.parse(new TextDecoder().decode(fromBase64url(body)))
+        if (typeof payload.sub !== 'string' || typeof payload.exp !== 'number' || payload.exp <= Date.now() / 1000) return null
+        if (payload.scope !== scope) return null
+        return payload
+    } catch {
+        return null
+    }
+}
@@ -0,0 +1,86 @@
+import { fetchUpstash, hasUpstash } from '@/lib/upstash'
+
+// After LOGIN_MAX_ATTEMPTS failed attempts for a username or an IP, further attempts are refused
+// until LOGIN_LOCKOUT_SECONDS have passed since the first attempt of the series. Every attempt
+// is counted before the password is checked, in the same atomic step as the lockout check, so
+// parallel attempts cannot all slip in under the limit; a successful login gives its count back.
+
+function maxAttempts(): number {
+    return Number(process.env.LOGIN_MAX_ATTEMPTS) || 5
+}
+
+function lockoutSeconds(): number {
+    return Number(process.env.LOGIN_LOCKOUT_SECONDS) || 15 * 60
+}
+
+const memoryAttempts = new Map<string, { count: number; expires: number }>()
+
+// KEYS: the counters to charge. ARGV: ttl. Returns [count, ttl] per key.
+const ATTEMPT_SCRIPT = `
+local out = {}
+for i = 1, #KEYS do
+    local count = redis.call('INCR', KEYS[i])
+    if count == 1 then redis.call('EXPIRE', KEYS[i], ARGV[1]) end
+    out[2 * i - 1] = count
+    out[2 * i] = redis.call('TTL', KEYS[i])
+end
+return out
+`
+
+// Gives one attempt back, never going below zero (the counter may have expired meanwhile)
+const RELEASE_SCRIPT = `
+local count = tonumber(redis.call('GET', KEYS[1]) or '0')
+if count > 0 then redis.call('DECR', KEYS[1]) end
+return 0
+`
+
+// Counts one attempt on every key; a single step per backend (one script, or synchronous in memory)
+async function countAttempt(keys: string[]): Promise<{ count: number; ttl: number }[]> {
+    if (hasUpstash()) {
+        const result = await fetchUpstash(['EVAL', ATTEMPT_SCRIPT, String(keys.length), ...keys, String(lockoutSeconds())])
+        if (Array.isArray(result) && result.length === keys.length * 2) {
+            return keys.map((_, i) => ({ count: Number(result[2 * i]), ttl: Number(result[2 * i + 1]) > 0 ? Number(result[2 * i + 1]) : lockoutSeconds() }))
+        }
+        // Upstash unreachable: fall back to per-instance counters rather than not limiting at all
+        console.warn('[Auth] event=throttle_store_unavailable')
+    }
+    const now = Date.now() / 1000
+    return keys.map(key => {
+        let entry = memoryAttempts.get(key)
+        if (!entry || entry.expires <= now) {
+            entry = { count: 0, expires: now + lockoutSeconds() }
+            memoryAttempts.set(key, entry)
+        }
+        entry.count++
+        return { count: entry.count, ttl: Math.ceil(entry.expires - now) }
+    })
+}
+
+// `account` namespaces the username ("user", "admin"), so the admin login has its own counter
+const keysFor = (account: string, username: string, ip: string) => [`auth:fail:${account}:${username.trim().toLowerCase()}`, `auth:fail:ip:${ip}`]
+
+/**
+ * Counts a login attempt for the username and the IP and checks the lockout in the same step.
+ * Returns the seconds until the caller may try again, or 0 when the attempt may go ahead.
+ */
+export async function beginLoginAttempt(username: string, ip: string, account = 'user'): Promise<number> {
+    const counts = await countAttempt(keysFor(account, username, ip))
+    let wait = 0
+    for (const { count, ttl } of counts) {
+        if (count > maxAttempts()) wait = Math.max(wait, ttl)
+    }
+    return wait
+}
+
+/** A successful login clears the username's failures and gives the IP its attempt back. */
+export async function recordLoginSuccess(username: string, ip: string, account = 'user'): Promise<void> {
+    const [userKey, ipKey] = keysFor(account, username, ip)
+    if (hasUpstash()) {
+        await fetchUpstash(['DEL', userKey])
+        await fetchUpstash(['EVAL', RELEASE_SCRIPT, '1', ipKey])
+        return
+    }
+    memoryAttempts.delete(userKey)
+    const entry = memoryAttempts.get(ipKey)
+    if (entry && entry.count > 0) entry.count--
+}
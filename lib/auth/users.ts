@@ -0,0 +1,59 @@
+import fs from 'fs'
+import { randomBytes, scrypt, timingSafeEqual } from 'crypto'
+
+export type LocalUser = {
+    id: string
+    username: string
+    passwordHash: string // scrypt$<salt, base64>$<key, base64>; see hashPassword
+    disabled?: boolean
+}
+
+export type UsersConfig = {
+    users?: LocalUser[]
+}
+
+const KEY_LENGTH = 64
+
+function deriveKey(password: string, salt: Buffer): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+        scrypt(password.normalize('NFKC'), salt, KEY_LENGTH, (err, key) => err ? reject(err) : resolve(key))
+    })
+}
+
+export async function hashPassword(password: string): Promise<string> {
+    const salt = randomBytes(16)
+    return `scrypt$${salt.toString('base64')}$${(await deriveKey(password, salt)).toString('base64')}`
+}
+
+export async function verifyPassword(password: string, passwordHash: string): Promise<boolean> {
+    const [scheme, salt, key] = passwordHash.split('$')
+    if (scheme !== 'scrypt' || !salt || !key) return false
+    const expected = Buffer.from(key, 'base64')
+    const actual = await deriveKey(password, Buffer.from(salt, 'base64'))
+    return actual.length === expected.length && timingSafeEqual(actual, expected)
+}
+
+// Accounts come from AUTH_USERS_FILE (a JSON file) and AUTH_USERS (the same JSON inline)
+function loadUsers(): LocalUser[] {
+    const configs: UsersConfig[] = []
+    if (process.env.AUTH_USERS_FILE) configs.push(JSON.parse(fs.readFileSync(process.env.AUTH_USERS_FILE, 'utf8')))
+    if (process.env.AUTH_USERS) configs.push(JSON.parse(process.env.AUTH_USERS))
+    return configs.flatMap(c => c.users || [])
+}
+
+let users: LocalUser[] | null = null
+
+export function findUser(username: string): LocalUser | undefined {
+    users ??= loadUsers()
+    const name = username.trim().toLowerCase()
+    return users.find(u => u.username.toLowerCase() === name && !u.disabled)
+}
+
+// Verified against when the username is unknown, so a miss takes as long as a wrong password
+const DUMMY_HASH = 'scrypt$AAAAAAAAAAAAAAAAAAAAAA==$' + Buffer.alloc(KEY_LENGTH).toString('base64')
+
+export async function authenticate(username: string, password: string): Promise<LocalUser | null> {
+    const user = findUser(username)
+    const ok = await verifyPassword(password, user ? user.passwordHash : DUMMY_HASH)
+    return ok && user ? user : null
+}
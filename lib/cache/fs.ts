@@ -0,0 +1,59 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+import { CacheBackend } from './types'
+
+type Entry = { value: unknown; expiresAt: number }
+
+/**
+ * One JSON file per entry. Reads bump the file's mtime, so evicting the oldest mtimes
+ * when the directory grows past `maxEntries` is least-recently-used.
+ */
+export function createFsCache(dir: string, maxEntries: number): CacheBackend {
+    const fileFor = (key: string) => path.join(dir, `${key}.json`)
+    let ready: Promise<unknown> | null = null
+    const ensureDir = () => ready ??= fs.mkdir(dir, { recursive: true })
+
+    async function evict() {
+        const names = (await fs.readdir(dir)).filter(n => n.endsWith('.json'))
+        if (names.length <= maxEntries) return
+        const stats = await Promise.all(names.map(async name => {
+            const stat = await fs.stat(path.join(dir, name)).catch(() => null)
+            return { name, mtime: stat ? stat.mtimeMs : 0 }
+        }))
+        stats.sort((a, b) => a.mtime - b.mtime)
+        await Promise.all(stats.slice(0, names.length - maxEntries).map(s => fs.unlink(path.join(dir, s.name)).catch(() => { })))
+    }
+
+    return {
+        id: 'fs',
+        async get<T>(key: string) {
+            try {
+                const entry: Entry = JSON.parse(await fs.readFile(fileFor(key), 'utf8'))
+                if (entry.expiresAt <= Date.now()) {
+                    await fs.unlink(fileFor(key)).catch(() => { })
+                    return null
+                }
+                const now = new Date()
+                await fs.utimes(fileFor(key), now, now).catch(() => { })
+                return entry.value as T
+            } catch {
+                return null
+            }
+        },
+        async set<T>(key: string, value: T, ttlMs: number) {
+            try {
+                await ensureDir()
+                // Write then rename, so a concurrent reader never sees a half-written file
+                const tmp = `${fileFor(key)}.${process.pid}.${Date.now()}.tmp`
+                await fs.writeFile(tmp, JSON.stringify({ value, expiresAt: Date.now() + ttlMs }))
+                await fs.rename(tmp, fileFor(key))
+                await evict()
+            } catch (error) {
+                console.error('Cache write error:', error)
+            }
+        },
+        async delete(key: string) {
+            await fs.unlink(fileFor(key)).catch(() => { })
+        },
+    }
+}
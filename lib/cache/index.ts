@@ -0,0 +1,44 @@
+import { createHash } from 'crypto'
+import os from 'os'
+import path from 'path'
+import { hasUpstash } from '@/lib/upstash'
+import { createFsCache } from './fs'
+import { createMemoryCache } from './memory'
+import { createUpstashCache } from './upstash'
+import { CacheBackend, CacheBackendId } from './types'
+
+export type { CacheBackend, CacheBackendId } from './types'
+export { createMemoryCache } from './memory'
+export { createFsCache } from './fs'
+export { createUpstashCache } from './upstash'
+
+export function cacheTtlMs(): number {
+    return Number(process.env.CACHE_TTL_MS) || 24 * 60 * 60 * 1000 // 24 hours
+}
+
+/** SHA-256 over every part; JSON encoding keeps ("ab", "c") and ("a", "bc") apart. */
+export function cacheKey(parts: string[]): string {
+    return createHash('sha256').update(JSON.stringify(parts)).digest('hex')
+}
+
+// CACHE_BACKEND picks the store; by default Upstash when it is configured, memory otherwise
+function createCache(): CacheBackend {
+    const maxEntries = Number(process.env.CACHE_MAX_ENTRIES) || 1000
+    const id = (process.env.CACHE_BACKEND || (hasUpstash() ? 'upstash' : 'memory')) as CacheBackendId
+    switch (id) {
+        case 'upstash':
+            return createUpstashCache()
+        case 'fs':
+            return createFsCache(process.env.CACHE_DIR || path.join(os.tmpdir(), 'cmos-cache'), maxEntries)
+        case 'memory':
+            return createMemoryCache(maxEntries)
+        default:
+            throw new Error(`Unknown CACHE_BACKEND: ${id}`)
+    }
+}
+
+let cache: CacheBackend | null = null
+
+export function getCache(): CacheBackend {
+    return cache ??= createCache()
+}
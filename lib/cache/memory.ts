@@ -0,0 +1,30 @@
+import { CacheBackend } from './types'
+
+type Entry = { value: unknown; expiresAt: number }
+
+/** Per-process LRU: a Map keeps insertion order, so a hit re-inserts its entry at the end. */
+export function createMemoryCache(maxEntries: number): CacheBackend {
+    const entries = new Map<string, Entry>()
+
+    return {
+        id: 'memory',
+        async get<T>(key: string) {
+            const entry = entries.get(key)
+            if (!entry) return null
+            entries.delete(key)
+            if (entry.expiresAt <= Date.now()) return null
+            entries.set(key, entry)
+            return entry.value as T
+        },
+        async set<T>(key: string, value: T, ttlMs: number) {
+            entries.delete(key)
+            entries.set(key, { value, expiresAt: Date.now() + ttlMs })
+            while (entries.size > maxEntries) {
+                entries.delete(entries.keys().next().value!)
+            }
+        },
+        async delete(key: string) {
+            entries.delete(key)
+        },
+    }
+}
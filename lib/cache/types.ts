@@ -0,0 +1,13 @@
+/**
+ * Storage for cached rewrite results. Keys are opaque hex digests (see `cacheKey`).
+ * Backends expire entries after their TTL and may evict earlier to stay within size limits;
+ * a failing backend behaves like a miss.
+ */
+export interface CacheBackend {
+    id: string
+    get<T>(key: string): Promise<T | null>
+    set<T>(key: string, value: T, ttlMs: number): Promise<void>
+    delete(key: string): Promise<void>
+}
+
+export type CacheBackendId = 'memory' | 'fs' | 'upstash'
@@ -0,0 +1,27 @@
+import { fetchUpstash } from '@/lib/upstash'
+import { CacheBackend } from './types'
+
+/**
+ * Shared across instances, so serverless deployments get hits. Entries carry a Redis TTL;
+ * size-based eviction is left to the database's maxmemory policy (allkeys-lru).
+ */
+export function createUpstashCache(prefix = 'cache:'): CacheBackend {
+    return {
+        id: 'upstash',
+        async get<T>(key: string) {
+            const raw = await fetchUpstash(['GET', `${prefix}${key}`])
+            if (typeof raw !== 'string') return null
+            try {
+                return JSON.parse(raw) as T
+            } catch {
+                return null
+            }
+        },
+        async set<T>(key: string, value: T, ttlMs: number) {
+            await fetchUpstash(['SET', `${prefix}${key}`, JSON.stringify(value), 'PX', String(ttlMs)])
+        },
+        async delete(key: string) {
+            await fetchUpstash(['DEL', `${prefix}${key}`])
+        },
+    }
+}
@@ -0,0 +1,152 @@
+import { Change, ChangeType, RewriteResponse } from '@/types'
+
+export type ChangeDecision = 'accepted' | 'rejected'
+
+// Keyed by change_id. Changes without an entry are treated as accepted.
+export type ChangeDecisions = Record<string, ChangeDecision>
+
+export function isAccepted(decisions: ChangeDecisions, changeId: string): boolean {
+    return decisions[changeId] !== 'rejected'
+}
+
+// Screen-reader text for the selected change
+export function describeChange(change: Change, index: number, total: number): string {
+    const type = change.type === 'INSERT_AT_END' ? 'punctuation' : change.type
+    return `Change ${index + 1} of ${total}, ${type}: ${change.before || 'nothing'} to ${change.after || 'nothing'}.`
+}
+
+export type ReviewShortcutState = {
+    changes: Change[]
+    selectedChangeId: string | null
+    // False while a result is still streaming in: there is nothing to decide on yet
+    canDecide: boolean
+    showHighlights: boolean
+}
+
+// What a review shortcut does; `announcement` goes to the ARIA live region
+export type ReviewShortcutAction = {
+    // The change to select next; null deselects, undefined leaves the selection alone
+    select?: string | null
+    decide?: { changeId: string; decision: ChangeDecision }
+    toggleHighlights?: boolean
+    announcement: string
+}
+
+/**
+ * Maps a review key to its action: J/K select the next/previous change, A/R accept or
+ * reject the selected change and move on, H toggles the highlights and Escape deselects.
+ * Returns null when the key does nothing in this state, so the browser keeps it.
+ */
+export function reviewShortcut(key: string, state: ReviewShortcutState): ReviewShortcutAction | null {
+    const { changes, selectedChangeId } = state
+    const index = changes.findIndex(c => c.change_id === selectedChangeId)
+    const select = (i: number, prefix = ''): ReviewShortcutAction => ({
+        select: changes[i].change_id,
+        announcement: prefix + describeChange(changes[i], i, changes.length),
+    })
+
+    switch (key.toLowerCase()) {
+        case 'j':
+            if (changes.length === 0) return null
+            return select(index === -1 ? 0 : Math.min(index + 1, changes.length - 1))
+        case 'k':
+            if (changes.length === 0) return null
+            return select(index === -1 ? changes.length - 1 : Math.max(index - 1, 0))
+        case 'a':
+        case 'r': {
+            // Unlocated and overlapping changes cannot be reverted on their own (see applyDecisions)
+            if (!state.canDecide || index === -1 || !revertibleChangeIds(changes).has(changes[index].change_id)) return null
+            const decision: ChangeDecision = key.toLowerCase() === 'a' ? 'accepted' : 'rejected'
+            const done = `${decision === 'accepted' ? 'Accepted' : 'Rejected'} change ${index + 1}. `
+            return { ...select(Math.min(index + 1, changes.length - 1), done), decide: { changeId: changes[index].change_id, decision } }
+        }
+        case 'h':
+            return { toggleHighlights: true, announcement: state.showHighlights ? 'Highlights hidden.' : 'Highlights shown.' }
+        case 'escape':
+            return selectedChangeId ? { select: null, announcement: '' } : null
+        default:
+            return null
+    }
+}
+
+/**
+ * The changes `applyDecisions` can swap back on their own: located ones that do not
+ * overlap an earlier change. The others stay in the text whatever is decided.
+ */
+export function revertibleChangeIds(changes: Change[]): Set<string> {
+    const ids = new Set<string>()
+    let lastEnd = 0
+    for (const change of changes.filter(c => c.loc).sort((a, b) => a.loc!.start - b.loc!.start)) {
+        if (change.loc!.start < lastEnd) continue
+        ids.add(change.change_id)
+        lastEnd = change.loc!.end
+    }
+    return ids
+}
+
+/**
+ * Sets the same decision for every change of the given type that can be reverted;
+ * the others are left undecided.
+ */
+export function decideAllOfType(
+    changes: Change[],
+    decisions: ChangeDecisions,
+    type: ChangeType,
+    decision: ChangeDecision
+): ChangeDecisions {
+    const next = { ...decisions }
+    const revertible = revertibleChangeIds(changes)
+    for (const change of changes) {
+        if (change.type === type && revertible.has(change.change_id)) next[change.change_id] = decision
+    }
+    return next
+}
+
+/**
+ * Rebuilds the revised text from the original plus only the accepted changes.
+ *
+ * The located changes split `revised_text` into untouched stretches (identical to the
+ * original) and edited spans. Each rejected span is swapped back to its `before` text,
+ * and the `loc` of every accepted change is shifted by the length delta accumulated so far.
+ * Overlapping changes cannot be reverted independently and are kept as-is, mirroring how
+ * the highlighter skips them. Rejected changes are dropped from the returned list.
+ */
+export function applyDecisions(result: RewriteResponse, decisions: ChangeDecisions): RewriteResponse {
+    const text = result.revised_text
+    const located = result.changes
+        .filter(c => c.loc)
+        .sort((a, b) => a.loc!.start - b.loc!.start)
+
+    let rebuilt = ''
+    let lastIndex = 0
+    let delta = 0
+    const shifted = new Map<string, Change>()
+    const reverted = new Set<string>()
+
+    for (const change of located) {
+        const { start, end } = change.loc!
+        if (start < lastIndex) {
+            shifted.set(change.change_id, { ...change, loc: { start: start + delta, end: end + delta } })
+            continue
+        }
+
+        rebuilt += text.substring(lastIndex, start)
+
+        if (isAccepted(decisions, change.change_id)) {
+            rebuilt += text.substring(start, end)
+            shifted.set(change.change_id, { ...change, loc: { start: start + delta, end: end + delta } })
+        } else {
+            rebuilt += change.before
+            delta += change.before.length - (end - start)
+            reverted.add(change.change_id)
+        }
+        lastIndex = end
+    }
+    rebuilt += text.substring(lastIndex)
+
+    const changes = result.changes
+        .filter(c => !reverted.has(c.change_id))
+        .map(c => shifted.get(c.change_id) || c)
+
+    return { revised_text: rebuilt, changes }
+}
@@ -0,0 +1,82 @@
+import { Change } from '@/types'
+import { dmp } from '@/lib/dmp'
+
+// The "true diff" view: what actually differs between the input and the revised text,
+// whether or not a reported change explains it
+
+export type DiffGranularity = 'word' | 'char'
+
+export type DiffSegment = {
+    op: 'equal' | 'delete' | 'insert'
+    text: string
+    // The reported change this edit belongs to; null for equal text and for edits no change explains
+    changeId: string | null
+}
+
+// Words (with inner apostrophes), runs of whitespace, and single punctuation marks
+const TOKEN = /[\p{L}\p{N}]+(?:['’][\p{L}\p{N}]+)*|\s+|[^\s\p{L}\p{N}]/gu
+
+// Word-level diff: each distinct token is encoded as one character, diffed, and decoded again
+function diffWords(original: string, revised: string): [number, string][] {
+    const tokens: string[] = []
+    const ids = new Map<string, string>()
+    const encode = (text: string) => (text.match(TOKEN) || []).map(token => {
+        if (!ids.has(token)) {
+            ids.set(token, String.fromCharCode(tokens.length))
+            tokens.push(token)
+        }
+        return ids.get(token)!
+    }).join('')
+
+    const diffs: [number, string][] = dmp.diff_main(encode(original), encode(revised), false)
+    dmp.diff_cleanupSemantic(diffs)
+    return diffs.map(([op, encoded]) => [op, encoded.split('').map(ch => tokens[ch.charCodeAt(0)]).join('')])
+}
+
+function diffChars(original: string, revised: string): [number, string][] {
+    const diffs: [number, string][] = dmp.diff_main(original, revised)
+    dmp.diff_cleanupEfficiency(diffs)
+    return diffs
+}
+
+// The change whose loc overlaps [start, end) of the revised text, or, for a pure deletion, touches it
+function changeAt(changes: Change[], start: number, end: number): Change | undefined {
+    const located = changes.filter(c => c.loc)
+    return located.find(c => c.loc!.start < end && c.loc!.end > start)
+        || located.find(c => c.loc!.start <= end && c.loc!.end >= start)
+}
+
+/**
+ * Diffs `original` against `revised` and links every edited run to the reported change
+ * covering it. `changes` must be located in `revised`. Consecutive deletions and
+ * insertions form one hunk and share a change.
+ */
+export function diffTexts(original: string, revised: string, granularity: DiffGranularity, changes: Change[] = []): DiffSegment[] {
+    const diffs = granularity === 'word' ? diffWords(original, revised) : diffChars(original, revised)
+    const segments: DiffSegment[] = []
+    let revPos = 0
+    for (let i = 0; i < diffs.length; i++) {
+        if (diffs[i][0] === 0) {
+            segments.push({ op: 'equal', text: diffs[i][1], changeId: null })
+            revPos += diffs[i][1].length
+            continue
+        }
+        const hunk: DiffSegment[] = []
+        const revStart = revPos
+        while (i < diffs.length && diffs[i][0] !== 0) {
+            const [op, text] = diffs[i]
+            hunk.push({ op: op === -1 ? 'delete' : 'insert', text, changeId: null })
+            if (op === 1) revPos += text.length
+            i++
+        }
+        i--
+        const change = changeAt(changes, revStart, revPos)
+        segments.push(...hunk.map(s => ({ ...s, changeId: change?.change_id ?? null })))
+    }
+    return segments
+}
+
+/** Number of hunks that no reported change explains. */
+export function countUnexplained(segments: DiffSegment[]): number {
+    return segments.filter((s, i) => s.op !== 'equal' && s.changeId === null && (i === 0 || segments[i - 1].op === 'equal')).length
+}
@@ -0,0 +1,4 @@
+import DiffMatchPatch from 'diff-match-patch'
+
+// One diff-match-patch instance for every module that diffs text: it keeps only its settings between calls
+export const dmp = new DiffMatchPatch()
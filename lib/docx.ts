@@ -0,0 +1,295 @@
+import JSZip from 'jszip'
+import { Change, DocxParagraph, RewriteResponse, TextRun } from '@/types'
+import { dmp } from '@/lib/dmp'
+
+// Largest .docx accepted for import, and largest export request body
+export const MAX_DOCX_BYTES = 5 * 1024 * 1024
+
+// Paragraphs are joined with a blank line so the text can go through document mode unchanged
+export const PARAGRAPH_SEPARATOR = '\n\n'
+
+const W_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main'
+
+function decodeXml(str: string): string {
+    return str
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&apos;/g, "'")
+        .replace(/&#(\d+);/g, (_, n) => String.fromCodePoint(parseInt(n, 10)))
+        .replace(/&#x([0-9a-f]+);/gi, (_, n) => String.fromCodePoint(parseInt(n, 16)))
+        .replace(/&amp;/g, '&')
+}
+
+function encodeXml(str: string): string {
+    return str
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+}
+
+// <w:i/>, <w:i w:val="true"/> and <w:i w:val="1"/> switch a toggle property on; "0"/"false" switch it off
+function hasToggle(rPr: string, tag: 'i' | 'b'): boolean {
+    const match = rPr.match(new RegExp(`<w:${tag}(\\s[^>]*)?/?>`))
+    if (!match) return false
+    const val = (match[1] || '').match(/w:val="([^"]*)"/)
+    return !val || !['0', 'false', 'off'].includes(val[1])
+}
+
+function plainText(paragraph: DocxParagraph): string {
+    return paragraph.runs.map(r => r.text).join('')
+}
+
+export function paragraphsToText(paragraphs: DocxParagraph[]): string {
+    return paragraphs.map(plainText).join(PARAGRAPH_SEPARATOR)
+}
+
+// Removes every `tag` element, nested ones included
+function withoutElement(xml: string, tag: string): string {
+    const tagRegex = new RegExp(`<${tag}\\b[^>]*?(/?)>|</${tag}>`, 'g')
+    let out = ''
+    let from = 0
+    let depth = 0
+    let m
+    while ((m = tagRegex.exec(xml)) !== null) {
+        if (m[0].startsWith('</')) {
+            if (depth > 0 && --depth === 0) from = m.index + m[0].length
+        } else if (!m[1] && depth++ === 0) {
+            out += xml.slice(from, m.index)
+        }
+    }
+    return depth === 0 ? out + xml.slice(from) : out
+}
+
+// The contents of each w:p, in document order. A paragraph nested in another one is not folded
+// into its parent: the parent keeps the text around it and the nested one becomes its own paragraph.
+function paragraphBodies(xml: string): string[] {
+    const bodies: string[] = []
+    const open: { slot: number; from: number }[] = []
+    const tagRegex = /<w:p\b[^>]*?(\/?)>|<\/w:p>/g
+    let m
+    while ((m = tagRegex.exec(xml)) !== null) {
+        const parent = open[open.length - 1]
+        if (m[0] === '</w:p>') {
+            if (!parent) continue
+            bodies[parent.slot] += xml.slice(parent.from, m.index)
+            open.pop()
+            if (open.length > 0) open[open.length - 1].from = m.index + m[0].length
+        } else if (!m[1]) {
+            if (parent) bodies[parent.slot] += xml.slice(parent.from, m.index)
+            open.push({ slot: bodies.push('') - 1, from: m.index + m[0].length })
+        }
+    }
+    return bodies
+}
+
+/**
+ * Pulls the body paragraphs out of a .docx, keeping italics and bold at run level.
+ * Empty paragraphs are dropped; existing tracked deletions are ignored. Text boxes are
+ * skipped (they sit outside the text flow), and any other paragraph nested inside a
+ * paragraph is read as a paragraph of its own.
+ */
+export async function extractDocxParagraphs(data: ArrayBuffer): Promise<DocxParagraph[]> {
+    const zip = await JSZip.loadAsync(data)
+    const documentFile = zip.file('word/document.xml')
+    if (!documentFile) throw new Error('Not a Word document: word/document.xml is missing')
+    const xml = await documentFile.async('string')
+
+    const paragraphs: DocxParagraph[] = []
+    for (const body of paragraphBodies(withoutElement(xml, 'w:txbxContent'))) {
+        const runs: TextRun[] = []
+        const runRegex = /<w:r\b[^>]*>([\s\S]*?)<\/w:r>/g
+        let rMatch
+        while ((rMatch = runRegex.exec(body)) !== null) {
+            const run = rMatch[1]
+            const rPr = (run.match(/<w:rPr>([\s\S]*?)<\/w:rPr>/) || ['', ''])[1]
+            let text = ''
+            const contentRegex = /<w:t(?:\s[^>]*)?>([\s\S]*?)<\/w:t>|<w:tab\/>|<w:br\/>/g
+            let cMatch
+            while ((cMatch = contentRegex.exec(run)) !== null) {
+                if (cMatch[0].startsWith('<w:tab')) text += '\t'
+                else if (cMatch[0].startsWith('<w:br')) text += ' '
+                else text += decodeXml(cMatch[1])
+            }
+            if (!text) continue
+
+            const italic = hasToggle(rPr, 'i')
+            const bold = hasToggle(rPr, 'b')
+            const prev = runs[runs.length - 1]
+            if (prev && !!prev.italic === italic && !!prev.bold === bold) {
+                prev.text += text
+            } else {
+                runs.push({ text, ...(italic ? { italic } : {}), ...(bold ? { bold } : {}) })
+            }
+        }
+        if (runs.some(r => r.text.trim())) paragraphs.push({ runs })
+    }
+    return paragraphs
+}
+
+// --- Tracked-changes export ---
+
+type Formatting = { italic?: boolean; bold?: boolean }
+
+type Segment =
+    | { kind: 'text' | 'ins' | 'del'; text: string; format: Formatting }
+    | { kind: 'comment_start' | 'comment_end'; id: number }
+    | { kind: 'break' }
+
+function runProperties(format: Formatting): string {
+    if (!format.italic && !format.bold) return ''
+    return `<w:rPr>${format.bold ? '<w:b/>' : ''}${format.italic ? '<w:i/>' : ''}</w:rPr>`
+}
+
+// Per-character formatting of the original text, with paragraph separators left unformatted
+function formattingByChar(paragraphs: DocxParagraph[]): Formatting[] {
+    const formats: Formatting[] = []
+    paragraphs.forEach((p, i) => {
+        if (i > 0) for (let k = 0; k < PARAGRAPH_SEPARATOR.length; k++) formats.push({})
+        for (const run of p.runs) {
+            for (let k = 0; k < run.text.length; k++) formats.push({ italic: run.italic, bold: run.bold })
+        }
+    })
+    return formats
+}
+
+// Splits a piece of text on line breaks so that every newline run becomes a paragraph break
+function pushText(segments: Segment[], kind: 'text' | 'ins' | 'del', text: string, formats: (k: number) => Formatting) {
+    const parts = text.split(/(\r?\n+)/)
+    let offset = 0
+    for (const part of parts) {
+        if (/^\r?\n+$/.test(part)) {
+            segments.push({ kind: 'break' })
+        } else {
+            // Group consecutive characters with identical formatting into one run
+            let runStart = 0
+            for (let k = 1; k <= part.length; k++) {
+                const a = formats(offset + runStart)
+                const b = k < part.length ? formats(offset + k) : null
+                if (!b || !!a.italic !== !!b.italic || !!a.bold !== !!b.bold) {
+                    segments.push({ kind, text: part.slice(runStart, k), format: a })
+                    runStart = k
+                }
+            }
+        }
+        offset += part.length
+    }
+}
+
+function reasonsFor(changes: Change[], revStart: number, revEnd: number): string[] {
+    return changes
+        .filter(c => c.loc && c.loc.start <= revEnd && c.loc.end >= revStart)
+        .map(c => c.reason)
+        .filter((reason, i, all) => reason && all.indexOf(reason) === i)
+}
+
+/**
+ * Builds a .docx in which every difference between `original` and `result.revised_text`
+ * is a real Word tracked change (w:ins/w:del), with each line break starting a new paragraph.
+ * Each edit that overlaps a reported `Change` gets that change's `reason` as a margin comment.
+ * Run formatting comes from `opts.paragraphs` (an imported .docx) while it still matches `original`.
+ */
+export async function buildTrackedDocx(
+    original: string,
+    result: RewriteResponse,
+    opts: { paragraphs?: DocxParagraph[]; author?: string } = {}
+): Promise<ArrayBuffer> {
+    const author = encodeXml(opts.author || 'Chicago Style Checker')
+    const date = new Date().toISOString().replace(/\.\d{3}Z$/, 'Z')
+    const formats = opts.paragraphs && paragraphsToText(opts.paragraphs) === original
+        ? formattingByChar(opts.paragraphs)
+        : []
+
+    const diffs: [number, string][] = dmp.diff_main(original, result.revised_text)
+    dmp.diff_cleanupSemantic(diffs)
+
+    const segments: Segment[] = []
+    const comments: { id: number; text: string }[] = []
+    let origPos = 0
+    let revPos = 0
+
+    for (let i = 0; i < diffs.length; i++) {
+        const [op, text] = diffs[i]
+        if (op === 0) {
+            const base = origPos
+            pushText(segments, 'text', text, k => formats[base + k] || {})
+            origPos += text.length
+            revPos += text.length
+            continue
+        }
+
+        // Collect one hunk: consecutive deletions/insertions between two equalities
+        let deleted = ''
+        let inserted = ''
+        while (i < diffs.length && diffs[i][0] !== 0) {
+            if (diffs[i][0] === -1) deleted += diffs[i][1]
+            else inserted += diffs[i][1]
+            i++
+        }
+        i--
+
+        const reasons = reasonsFor(result.changes, revPos, revPos + inserted.length)
+        const commentId = reasons.length > 0 ? comments.length : -1
+        if (commentId >= 0) {
+            comments.push({ id: commentId, text: reasons.join(' ') })
+            segments.push({ kind: 'comment_start', id: commentId })
+        }
+
+        const delBase = origPos
+        if (deleted) pushText(segments, 'del', deleted, k => formats[delBase + k] || {})
+        // Inserted text inherits the formatting of the original character it replaces or follows
+        const insFormat = formats[origPos] || formats[origPos - 1] || {}
+        if (inserted) pushText(segments, 'ins', inserted, () => insFormat)
+
+        if (commentId >= 0) segments.push({ kind: 'comment_end', id: commentId })
+        origPos += deleted.length
+        revPos += inserted.length
+    }
+
+    let revisionId = 1
+    let body = '<w:p>'
+    for (const seg of segments) {
+        switch (seg.kind) {
+            case 'break':
+                body += '</w:p><w:p>'
+                break
+            case 'comment_start':
+                body += `<w:commentRangeStart w:id="${seg.id}"/>`
+                break
+            case 'comment_end':
+                body += `<w:commentRangeEnd w:id="${seg.id}"/><w:r><w:commentReference w:id="${seg.id}"/></w:r>`
+                break
+            case 'text':
+                body += `<w:r>${runProperties(seg.format)}<w:t xml:space="preserve">${encodeXml(seg.text)}</w:t></w:r>`
+                break
+            case 'ins':
+                body += `<w:ins w:id="${revisionId++}" w:author="${author}" w:date="${date}"><w:r>${runProperties(seg.format)}<w:t xml:space="preserve">${encodeXml(seg.text)}</w:t></w:r></w:ins>`
+                break
+            case 'del':
+                body += `<w:del w:id="${revisionId++}" w:author="${author}" w:date="${date}"><w:r>${runProperties(seg.format)}<w:delText xml:space="preserve">${encodeXml(seg.text)}</w:delText></w:r></w:del>`
+                break
+        }
+    }
+    body += '</w:p>'
+
+    const documentXml = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document xmlns:w="${W_NS}"><w:body>${body}<w:sectPr/></w:body></w:document>`
+
+    const commentsXml = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:comments xmlns:w="${W_NS}">${comments.map(c =>
+        `<w:comment w:id="${c.id}" w:author="${author}" w:date="${date}" w:initials="CMS"><w:p><w:r><w:t xml:space="preserve">${encodeXml(c.text)}</w:t></w:r></w:p></w:comment>`
+    ).join('')}</w:comments>`
+
+    const zip = new JSZip()
+    zip.file('[Content_Types].xml', `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/><Override PartName="/word/comments.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.comments+xml"/></Types>`)
+    zip.file('_rels/.rels', `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/></Relationships>`)
+    zip.file('word/_rels/document.xml.rels', `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/comments" Target="comments.xml"/></Relationships>`)
+    zip.file('word/document.xml', documentXml)
+    zip.file('word/comments.xml', commentsXml)
+
+    return zip.generateAsync({ type: 'arraybuffer' })
+}
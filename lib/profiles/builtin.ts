@@ -0,0 +1,6 @@
+import { StyleProfile } from './types'
+
+export const BUILTIN_PROFILES: StyleProfile[] = [
+    { id: 'cmos17', name: 'Chicago (17th edition)', edition: 17 },
+    { id: 'cmos18', name: 'Chicago (18th edition)', edition: 18 },
+]
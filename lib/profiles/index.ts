@@ -0,0 +1,16 @@
+import fs from 'fs'
+import { BUILTIN_PROFILES } from './builtin'
+import { loadProfileConfig, registerProfile } from './registry'
+import { ProfileConfig } from './types'
+import defaultConfig from './profiles.config.json'
+
+export type { StyleProfile, HouseOverrides, ProfileConfig } from './types'
+export { registerProfile, getProfile, getProfiles, getDefaultProfile, loadProfileConfig, profileFingerprint } from './registry'
+
+for (const profile of BUILTIN_PROFILES) registerProfile(profile)
+loadProfileConfig(defaultConfig as ProfileConfig)
+
+// Imprint style sheets can live outside the repo
+if (process.env.STYLE_PROFILES_CONFIG) {
+    loadProfileConfig(JSON.parse(fs.readFileSync(process.env.STYLE_PROFILES_CONFIG, 'utf8')))
+}
@@ -0,0 +1,37 @@
+import { cacheKey } from '@/lib/cache'
+import { ProfileConfig, StyleProfile } from './types'
+
+const profiles = new Map<string, StyleProfile>()
+let defaultProfileId = 'cmos17'
+
+export function registerProfile(profile: StyleProfile) {
+    if (profile.edition !== 17 && profile.edition !== 18) throw new Error(`Profile ${profile.id}: edition must be 17 or 18`)
+    profiles.set(profile.id, profile)
+}
+
+export function getProfile(id: string): StyleProfile | undefined {
+    return profiles.get(id)
+}
+
+export function getProfiles(): StyleProfile[] {
+    return Array.from(profiles.values())
+}
+
+export function getDefaultProfile(): StyleProfile {
+    return profiles.get(defaultProfileId) || getProfiles()[0]
+}
+
+/** Registers a config file's profiles (replacing any with the same id) and its default. */
+export function loadProfileConfig(config: ProfileConfig) {
+    for (const profile of config.profiles || []) registerProfile(profile)
+    if (config.default) {
+        if (!profiles.has(config.default)) throw new Error(`Default style profile ${config.default} is not defined`)
+        defaultProfileId = config.default
+    }
+}
+
+// Fingerprint of a profile's contents (SHA-256 of its JSON, as in the cache key), so editing a
+// style sheet invalidates cached results and no two style sheets can share one
+export function profileFingerprint(profile: StyleProfile): string {
+    return `${profile.id}:${cacheKey([JSON.stringify(profile)])}`
+}
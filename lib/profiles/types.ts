@@ -0,0 +1,32 @@
+// A named style sheet: a CMoS edition plus a house's departures from it
+export interface StyleProfile {
+    id: string
+    name: string
+    // Sets the edition the model is asked to follow. The cheap rules are the same for both
+    // editions: none of them covers a point the 18th edition changed
+    edition: 17 | 18
+    overrides?: HouseOverrides
+    // Terms and proper nouns that must never be "corrected" (product names, coined terms, authors' names)
+    glossary?: string[]
+}
+
+export interface HouseOverrides {
+    serialComma?: boolean // default true (CMoS 6.19)
+    // Variant → preferred spelling, e.g. { "e-mail": "email" }
+    spellings?: Record<string, string>
+    // Spell out whole numbers up to this value; CMoS uses 100 (9.2), the alternative rule 9 (9.3)
+    spellOutNumbersThrough?: number
+    // Citation system for references already in the text; default notes-bibliography (CMoS 14)
+    citationSystem?: 'notes-bibliography' | 'author-date'
+    // 'avoid' replaces "ibid." with a shortened note (CMoS 14.34); default 'avoid'
+    ibid?: 'allow' | 'avoid'
+    // Cheap-rule ids this house does not follow
+    disabledRules?: string[]
+    // Extra instructions for the model, one per line of the style sheet
+    notes?: string[]
+}
+
+export interface ProfileConfig {
+    default?: string
+    profiles?: StyleProfile[]
+}
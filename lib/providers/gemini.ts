@@ -0,0 +1,24 @@
+import { buildUserPrompt } from '@/lib/rewrite/llm'
+import { LLMProvider } from './types'
+
+export const geminiProvider: LLMProvider = {
+    id: 'gemini',
+    get model() { return process.env.GEMINI_MODEL || 'gemini-2.0-flash-exp' },
+    get timeoutMs() { return Number(process.env.GEMINI_TIMEOUT_MS) || 20000 },
+    isConfigured: () => !!process.env.GEMINI_API_KEY,
+    async complete({ text, systemPrompt, feedback }, signal) {
+        if (!process.env.GEMINI_API_KEY) throw new Error('GEMINI_API_KEY is not defined')
+        const { GoogleGenerativeAI } = require('@google/generative-ai')
+        const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY)
+        const model = genAI.getGenerativeModel({ model: geminiProvider.model, generationConfig: { temperature: 0.0, responseMimeType: "application/json" } })
+
+        try {
+            const result = await model.generateContent([{ text: systemPrompt }, { text: buildUserPrompt(text, feedback) }], { signal })
+            const usage = result.response.usageMetadata
+            return {
+                text: result.response.text(),
+                usage: usage && { inputTokens: usage.promptTokenCount || 0, outputTokens: usage.candidatesTokenCount || 0 },
+            }
+        } catch (error) { console.error("Gemini API Error:", error); throw error }
+    },
+}
@@ -0,0 +1,31 @@
+import { geminiProvider } from './gemini'
+import { mockProvider } from './mock'
+import { createOpenAICompatibleProvider } from './openai-compatible'
+import { registerProvider } from './registry'
+
+export type { LLMCall, LLMCompletion, LLMProvider, LLMRequest, ProviderAnswer, ProviderAttempt, TokenUsage } from './types'
+export { registerProvider, getProvider, getProviders, providerChain, rewriteWithFallback, isCircuitOpen, resetCircuits } from './registry'
+export { createOpenAICompatibleProvider } from './openai-compatible'
+
+registerProvider(geminiProvider)
+
+registerProvider(createOpenAICompatibleProvider({
+    id: 'groq',
+    baseURL: () => 'https://api.groq.com/openai/v1',
+    apiKey: () => process.env.GROQ_API_KEY,
+    model: () => process.env.GROQ_MODEL || 'llama-3.3-70b-versatile',
+    timeoutMs: () => Number(process.env.GROQ_TIMEOUT_MS) || 20000,
+    requiresKey: true,
+}))
+
+// OpenAI itself, or a self-hosted server via OPENAI_BASE_URL (e.g. http://localhost:11434/v1 for Ollama)
+registerProvider(createOpenAICompatibleProvider({
+    id: 'openai',
+    baseURL: () => process.env.OPENAI_BASE_URL || (process.env.OPENAI_API_KEY ? 'https://api.openai.com/v1' : undefined),
+    apiKey: () => process.env.OPENAI_API_KEY,
+    model: () => process.env.OPENAI_MODEL || 'gpt-4o-mini',
+    timeoutMs: () => Number(process.env.OPENAI_TIMEOUT_MS) || 30000,
+    requiresKey: false,
+}))
+
+registerProvider(mockProvider)
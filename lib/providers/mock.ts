@@ -0,0 +1,267 @@
+import { matchCase } from '@/lib/rules/builtin'
+import { protectedRanges } from '@/lib/rules/engine'
+import { glossaryFromPrompt } from '@/lib/rewrite/llm'
+import { Change, ChangeType, RewriteResponse, Severity } from '@/types'
+import { LLMProvider } from './types'
+
+// MOCK mode: a stand-in model for offline development. It makes a fixed set of Chicago edits
+// the cheap rules leave to the LLM, so the fixed-point loop, location tracking and highlights
+// all have real work to do, and it can misbehave on demand (MOCK_FAULTS) like a real provider.
+// Like a model following its instructions, it leaves the glossary terms of the system prompt alone.
+// Everything is deterministic: the same text, seed and settings always give the same answer.
+
+type MockEdit = {
+    type: ChangeType
+    severity: Severity
+    reason: string
+    pattern: RegExp
+    fix: (m: RegExpExecArray, text: string) => string
+    test?: (m: RegExpExecArray, text: string) => boolean
+}
+
+function atSentenceStart(text: string, index: number): boolean {
+    return /(^|[.!?:]["”’)*_]*\s+)$/.test(text.slice(0, index))
+}
+
+const MOCK_EDITS: MockEdit[] = [
+    {
+        type: 'grammar',
+        severity: 'recommended',
+        reason: '"Toward" is the American form (CMoS 5.250).',
+        pattern: /\btowards\b/gi,
+        fix: (m) => matchCase(m[0], 'toward'),
+    },
+    {
+        type: 'grammar',
+        severity: 'recommended',
+        reason: '"Amongst" is archaic in American English; use "among" (CMoS 5.250).',
+        pattern: /\bamongst\b/gi,
+        fix: (m) => matchCase(m[0], 'among'),
+    },
+    {
+        type: 'spelling',
+        severity: 'required',
+        reason: '"Alright" is nonstandard; use "all right" (CMoS 5.250).',
+        pattern: /\balright\b/gi,
+        fix: (m) => matchCase(m[0], 'all right'),
+    },
+    {
+        type: 'hyphenation',
+        severity: 'recommended',
+        reason: '"Website" is closed (CMoS 7.89).',
+        pattern: /\bweb site\b/gi,
+        fix: (m) => matchCase(m[0], 'website'),
+    },
+    {
+        type: 'hyphenation',
+        severity: 'recommended',
+        reason: '"Email" is closed, without a hyphen (CMoS 7.89).',
+        pattern: /\be-mail\b/gi,
+        fix: (m) => matchCase(m[0], 'email'),
+    },
+    {
+        type: 'capitalization',
+        severity: 'recommended',
+        reason: '"Internet" is lowercased as a generic term (CMoS 8.196).',
+        pattern: /\bInternet\b/g,
+        test: (m, text) => !atSentenceStart(text, m.index),
+        fix: () => 'internet',
+    },
+    {
+        type: 'numbers',
+        severity: 'recommended',
+        reason: '"Percent" is one word (CMoS 9.18).',
+        pattern: /\bper cent\b/gi,
+        fix: (m) => matchCase(m[0], 'percent'),
+    },
+    {
+        type: 'grammar',
+        severity: 'required',
+        reason: '"Irregardless" is nonstandard; use "regardless" (CMoS 5.250).',
+        pattern: /\birregardless\b/gi,
+        fix: (m) => matchCase(m[0], 'regardless'),
+    },
+    {
+        type: 'punctuation',
+        severity: 'recommended',
+        reason: 'A comma follows "however" used as an introductory adverb (CMoS 6.25).',
+        pattern: /\bHowever(?= [a-z])/g,
+        test: (m, text) => atSentenceStart(text, m.index),
+        fix: () => 'However,',
+    },
+]
+
+const CONTEXT_CHARS = 24
+
+// Up to CONTEXT_CHARS of surrounding text, cut back to whole words the way a model quotes context
+function contextAround(text: string, start: number, end: number) {
+    let before = text.slice(Math.max(0, start - CONTEXT_CHARS), start)
+    let after = text.slice(end, end + CONTEXT_CHARS)
+    if (start > CONTEXT_CHARS && before.includes(' ')) before = before.slice(before.indexOf(' ') + 1)
+    if (end + CONTEXT_CHARS < text.length && after.includes(' ')) after = after.slice(0, after.lastIndexOf(' '))
+    return { before, after }
+}
+
+/**
+ * Applies the mock edits to `text` and reports each of them, as a well-behaved model would.
+ * Edits touching an occurrence of a `protectedTerms` entry are not made.
+ */
+export function mockRewrite(text: string, protectedTerms: string[] = []): RewriteResponse {
+    const matches: { index: number; length: number; after: string; edit: MockEdit }[] = []
+    const guarded = protectedRanges(text, protectedTerms)
+    for (const edit of MOCK_EDITS) {
+        edit.pattern.lastIndex = 0
+        let m
+        while ((m = edit.pattern.exec(text)) !== null) {
+            if (edit.test && !edit.test(m, text)) continue
+            const end = m.index + m[0].length
+            if (guarded.some(r => m!.index < r.end && end > r.start)) continue
+            matches.push({ index: m.index, length: m[0].length, after: edit.fix(m, text), edit })
+        }
+    }
+    matches.sort((a, b) => a.index - b.index)
+
+    let revisedText = ''
+    let cursor = 0
+    const applied: { start: number; end: number; before: string; after: string; edit: MockEdit }[] = []
+    for (const m of matches) {
+        if (m.index < cursor) continue // overlaps an earlier edit
+        revisedText += text.slice(cursor, m.index)
+        applied.push({ start: revisedText.length, end: revisedText.length + m.after.length, before: text.substr(m.index, m.length), after: m.after, edit: m.edit })
+        revisedText += m.after
+        cursor = m.index + m.length
+    }
+    revisedText += text.slice(cursor)
+
+    const changes: Change[] = applied.map((a, i) => {
+        const ctx = contextAround(revisedText, a.start, a.end)
+        return {
+            change_id: `c${i + 1}`,
+            type: a.edit.type,
+            severity: a.edit.severity,
+            reason: a.edit.reason,
+            before: a.before,
+            after: a.after,
+            context_before: ctx.before,
+            context_after: ctx.after,
+        }
+    })
+    return { revised_text: revisedText, changes }
+}
+
+// --- Fault simulation ---
+// MOCK_FAULTS lists the faults to draw from; MOCK_FAULT_RATE (default 1) is the share of calls
+// that get one. The draw hashes MOCK_SEED, the text and whether the call is a retry, so a
+// failing request fails the same way every time while its retry can still succeed.
+
+export const MOCK_FAULTS = ['malformed_json', 'truncated_json', 'non_json', 'unreported_edit', 'phantom_change', 'rate_limit', 'timeout'] as const
+export type MockFault = typeof MOCK_FAULTS[number]
+
+// FNV-1a with a final avalanche (MurmurHash3 fmix32), so the high bits are as uniform as the low ones
+function hash32(str: string): number {
+    let h = 0x811c9dc5
+    for (let i = 0; i < str.length; i++) {
+        h ^= str.charCodeAt(i)
+        h = Math.imul(h, 0x01000193)
+    }
+    h ^= h >>> 16
+    h = Math.imul(h, 0x85ebca6b)
+    h ^= h >>> 13
+    h = Math.imul(h, 0xc2b2ae35)
+    h ^= h >>> 16
+    return h >>> 0
+}
+
+function configuredFaults(): MockFault[] {
+    return (process.env.MOCK_FAULTS || '').split(',').map(s => s.trim()).filter((f): f is MockFault => (MOCK_FAULTS as readonly string[]).includes(f))
+}
+
+export function pickMockFault(key: string): MockFault | null {
+    const faults = configuredFaults()
+    if (faults.length === 0) return null
+    const rate = process.env.MOCK_FAULT_RATE !== undefined ? Number(process.env.MOCK_FAULT_RATE) : 1
+    const h = hash32(`${process.env.MOCK_SEED || ''}:${key}`)
+    if (h / 0x100000000 >= rate) return null
+    return faults[hash32(`${h}`) % faults.length]
+}
+
+// MOCK_LATENCY_MS fixes the delay; by default it falls between 400 and 800 ms, depending on the text
+function mockLatencyMs(key: string): number {
+    const fixed = Number(process.env.MOCK_LATENCY_MS)
+    if (process.env.MOCK_LATENCY_MS !== undefined && Number.isFinite(fixed)) return Math.max(0, fixed)
+    return 400 + hash32(key) % 400
+}
+
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal.aborted) return reject(new Error('aborted'))
+        const timer = setTimeout(resolve, ms)
+        signal.addEventListener('abort', () => { clearTimeout(timer); reject(new Error('aborted')) }, { once: true })
+    })
+}
+
+// Hangs until the registry gives up on the call
+function untilAborted(signal: AbortSignal): Promise<never> {
+    return new Promise((_, reject) => signal.addEventListener('abort', () => reject(new Error('aborted')), { once: true }))
+}
+
+// A report for a word that was never touched, the typical hallucinated spelling fix
+function phantomChange(revisedText: string, id: string): Change | null {
+    const word = revisedText.match(/\b[a-z]{5,}\b/)
+    if (!word) return null
+    const w = word[0]
+    const ctx = contextAround(revisedText, word.index!, word.index! + w.length)
+    return {
+        change_id: id,
+        type: 'spelling',
+        severity: 'required',
+        reason: 'Corrected a misspelling.',
+        before: w.slice(0, 2) + w[1] + w.slice(2),
+        after: w,
+        context_before: ctx.before,
+        context_after: ctx.after,
+    }
+}
+
+function renderOutput(response: RewriteResponse, fault: MockFault | null): string {
+    switch (fault) {
+        case 'malformed_json': {
+            // Fenced, chatty and with a trailing comma: repairable, as most real slips are
+            const json = JSON.stringify(response, null, 2).replace(/\n\s*\]\n\}$/, ',\n  ]\n}')
+            return `Here is the revised text:\n\n\`\`\`json\n${json}\n\`\`\``
+        }
+        case 'truncated_json': {
+            const json = JSON.stringify(response)
+            return json.slice(0, Math.ceil(json.length * 0.6))
+        }
+        case 'non_json':
+            return 'I am sorry, but I cannot help with that request.'
+        case 'unreported_edit':
+            return JSON.stringify({ ...response, changes: response.changes.slice(1) })
+        case 'phantom_change': {
+            const phantom = phantomChange(response.revised_text, `c${response.changes.length + 1}`)
+            return JSON.stringify({ ...response, changes: phantom ? [...response.changes, phantom] : response.changes })
+        }
+        default:
+            return JSON.stringify(response)
+    }
+}
+
+export const mockProvider: LLMProvider = {
+    id: 'mock',
+    model: 'mock-v1',
+    get timeoutMs() { return Number(process.env.MOCK_TIMEOUT_MS) || 10000 },
+    isConfigured: () => true,
+    complete: async ({ text, systemPrompt, feedback }, signal) => {
+        const key = `${feedback ? 'retry' : 'first'}:${text}`
+        await sleep(mockLatencyMs(key), signal)
+        const fault = pickMockFault(key)
+        if (fault) console.log(`[Provider] event=mock_fault provider=mock fault=${fault}`)
+        if (fault === 'rate_limit') throw Object.assign(new Error('429 Too Many Requests (simulated)'), { status: 429 })
+        if (fault === 'timeout') await untilAborted(signal)
+
+        const output = renderOutput(mockRewrite(text, glossaryFromPrompt(systemPrompt)), fault)
+        // Rough token counts (~4 characters per token) so metering has something to show in development
+        return { text: output, usage: { inputTokens: Math.ceil((systemPrompt.length + text.length) / 4), outputTokens: Math.ceil(output.length / 4) } }
+    },
+}
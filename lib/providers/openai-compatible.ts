@@ -0,0 +1,36 @@
+import OpenAI from 'openai'
+import { buildUserPrompt } from '@/lib/rewrite/llm'
+import { LLMProvider } from './types'
+
+type OpenAICompatibleConfig = {
+    id: string
+    baseURL: () => string | undefined
+    apiKey: () => string | undefined
+    model: () => string
+    timeoutMs: () => number
+    // Local servers (llama.cpp, Ollama) usually run without a key
+    requiresKey: boolean
+}
+
+/** Any endpoint speaking the OpenAI chat-completions API: Groq, OpenAI, llama.cpp, Ollama, vLLM... */
+export function createOpenAICompatibleProvider(config: OpenAICompatibleConfig): LLMProvider {
+    return {
+        id: config.id,
+        get model() { return config.model() },
+        get timeoutMs() { return config.timeoutMs() },
+        isConfigured: () => !!config.baseURL() && (!config.requiresKey || !!config.apiKey()),
+        async complete({ text, systemPrompt, feedback }, signal) {
+            const client = new OpenAI({ apiKey: config.apiKey() || 'not-needed', baseURL: config.baseURL(), maxRetries: 0 })
+            try {
+                const response = await client.chat.completions.create({
+                    model: config.model(), messages: [{ role: 'system', content: systemPrompt }, { role: 'user', content: buildUserPrompt(text, feedback) }],
+                    response_format: { type: 'json_object' }, temperature: 0.0,
+                }, { signal })
+                return {
+                    text: response.choices[0].message.content || '',
+                    usage: response.usage && { inputTokens: response.usage.prompt_tokens, outputTokens: response.usage.completion_tokens },
+                }
+            } catch (error) { console.error(`${config.id} API Error:`, error); throw error }
+        },
+    }
+}
@@ -0,0 +1,170 @@
+import { parseModelOutput } from '@/lib/rewrite/validate'
+import { LLMCall, LLMCompletion, LLMProvider, LLMRequest, ProviderAnswer, ProviderAttempt } from './types'
+
+const providers = new Map<string, LLMProvider>()
+
+export function registerProvider(provider: LLMProvider) {
+    providers.set(provider.id, provider)
+}
+
+export function getProvider(id: string): LLMProvider | undefined {
+    return providers.get(id)
+}
+
+export function getProviders(): LLMProvider[] {
+    return Array.from(providers.values())
+}
+
+// --- Circuit Breaker ---
+// After BREAKER_THRESHOLD consecutive failures a provider is skipped for BREAKER_COOLDOWN_MS;
+// after the cooldown a single call goes through as a trial (half-open) that closes or re-opens the
+// circuit; everyone else keeps skipping the provider until that trial has finished.
+
+type BreakerState = {
+    failures: number
+    openedAt: number | null
+    probing: boolean
+}
+
+const breakers = new Map<string, BreakerState>()
+
+function breakerThreshold(): number {
+    return Number(process.env.PROVIDER_BREAKER_THRESHOLD) || 3
+}
+
+function breakerCooldownMs(): number {
+    return Number(process.env.PROVIDER_BREAKER_COOLDOWN_MS) || 30000
+}
+
+function breakerFor(id: string): BreakerState {
+    if (!breakers.has(id)) breakers.set(id, { failures: 0, openedAt: null, probing: false })
+    return breakers.get(id)!
+}
+
+export function isCircuitOpen(id: string, now = Date.now()): boolean {
+    const state = breakerFor(id)
+    if (state.openedAt === null) return false
+    return now - state.openedAt < breakerCooldownMs() || state.probing
+}
+
+// Whether a call may go to the provider; the call that finds the circuit half-open becomes its trial
+function admitCall(id: string, now = Date.now()): boolean {
+    if (isCircuitOpen(id, now)) return false
+    const state = breakerFor(id)
+    if (state.openedAt !== null) state.probing = true
+    return true
+}
+
+function recordSuccess(id: string) {
+    breakers.set(id, { failures: 0, openedAt: null, probing: false })
+}
+
+function recordFailure(id: string) {
+    const state = breakerFor(id)
+    state.failures++
+    state.probing = false
+    // A failed half-open trial re-opens immediately
+    if (state.failures >= breakerThreshold() || state.openedAt !== null) {
+        if (state.openedAt === null) console.warn(`[Provider] event=circuit_open provider=${id} failures=${state.failures}`)
+        state.openedAt = Date.now()
+    }
+}
+
+export function resetCircuits() {
+    breakers.clear()
+}
+
+// --- Fallback Chain ---
+
+/**
+ * Ordered provider ids to try: LLM_PROVIDERS (comma-separated) when set, otherwise
+ * `primary` followed by every other registered provider. The mock provider only
+ * serves mock mode and is never a fallback for real traffic.
+ */
+export function providerChain(mode: string, primary: string): string[] {
+    if (mode === 'mock') return ['mock']
+    const configured = (process.env.LLM_PROVIDERS || '').split(',').map(s => s.trim()).filter(Boolean)
+    if (configured.length > 0) return configured
+    return [primary, ...getProviders().map(p => p.id).filter(id => id !== primary && id !== 'mock')]
+}
+
+async function completeWithTimeout(provider: LLMProvider, request: LLMRequest): Promise<LLMCompletion> {
+    const controller = new AbortController()
+    let timer: ReturnType<typeof setTimeout> | undefined
+    const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => {
+            controller.abort()
+            reject(new Error(`timed out after ${provider.timeoutMs}ms`))
+        }, provider.timeoutMs)
+    })
+    try {
+        return await Promise.race([provider.complete(request, controller.signal), timeout])
+    } finally { clearTimeout(timer) }
+}
+
+// Asks one provider for a schema-valid answer, retrying once with the validation errors in the prompt.
+// Throws `{ validationErrors }` when both answers are unusable.
+async function requestRewrite(provider: LLMProvider, request: LLMRequest, onCall?: (call: LLMCall) => void): Promise<ProviderAnswer> {
+    let feedback: string[] | undefined
+    for (let attempt = 1; attempt <= 2; attempt++) {
+        const { text: raw, usage } = await completeWithTimeout(provider, { ...request, feedback })
+        onCall?.({ provider: provider.id, model: provider.model, inputTokens: usage?.inputTokens || 0, outputTokens: usage?.outputTokens || 0 })
+        const parsed = parseModelOutput(raw, request.text)
+        if (parsed.ok) {
+            if (parsed.repaired) console.log(`[Provider] event=output_repaired provider=${provider.id}`)
+            return { data: parsed.value, provider: provider.id, model: provider.model }
+        }
+        console.warn(`[Provider] event=invalid_output provider=${provider.id} attempt=${attempt} errors=${JSON.stringify(parsed.errors.slice(0, 5))}`)
+        feedback = parsed.errors
+    }
+    throw { validationErrors: feedback }
+}
+
+/**
+ * Asks each provider of the chain in turn until one answers. Unknown, unconfigured and
+ * circuit-open providers are skipped. A provider whose output fails validation twice is
+ * passed over without tripping its breaker (it is up, just unhelpful). Throws a 502
+ * status object when nobody answered: `invalid_model_output` when every provider that
+ * responded produced unusable output, `upstream_error` otherwise.
+ * `onCall` sees every model call that returned, including rejected answers, since each is billed.
+ */
+export async function rewriteWithFallback(request: LLMRequest, chain: string[], onCall?: (call: LLMCall) => void): Promise<ProviderAnswer> {
+    const attempts: ProviderAttempt[] = []
+
+    for (const id of chain) {
+        const provider = providers.get(id)
+        if (!provider) { attempts.push({ provider: id, error: 'unknown provider' }); continue }
+        if (!provider.isConfigured()) { attempts.push({ provider: id, error: 'not configured' }); continue }
+        if (!admitCall(id)) { attempts.push({ provider: id, error: 'circuit open' }); continue }
+
+        try {
+            const answer = await requestRewrite(provider, request, onCall)
+            recordSuccess(id)
+            if (attempts.length > 0) console.log(`[Provider] event=fallback_used provider=${id} skipped=${attempts.map(a => a.provider).join(',')}`)
+            return answer
+        } catch (error: any) {
+            if (error?.validationErrors) {
+                // The provider is up, just unhelpful: that closes its circuit like any answer would
+                recordSuccess(id)
+                attempts.push({ provider: id, error: 'invalid output', validation_errors: error.validationErrors })
+                continue
+            }
+            recordFailure(id)
+            const message = error?.message || String(error)
+            console.warn(`[Provider] event=provider_failed provider=${id} error=${JSON.stringify(message)}`)
+            attempts.push({ provider: id, error: message })
+        }
+    }
+
+    const reached = attempts.filter(a => !['unknown provider', 'not configured', 'circuit open'].includes(a.error))
+    if (reached.length > 0 && reached.every(a => a.validation_errors)) {
+        throw {
+            status: 502,
+            json: { error: { type: 'invalid_model_output', message: 'The model returned a response that does not match the expected format. Please try again.' }, attempts }
+        }
+    }
+    throw {
+        status: 502,
+        json: { error: { type: 'upstream_error', message: 'No LLM provider could complete the request' }, attempts }
+    }
+}
@@ -0,0 +1,48 @@
+import { RewriteResponse } from '@/types'
+
+export interface LLMProvider {
+    id: string
+    model: string
+    // Per-call budget; a slower answer counts as a failure and the chain moves on
+    timeoutMs: number
+    // False when the provider's credentials/endpoint are not set; it is then left out of the chain
+    isConfigured(): boolean
+    // Returns the model's raw answer and, when the API reports it, the tokens it was billed for
+    complete(request: LLMRequest, signal: AbortSignal): Promise<LLMCompletion>
+}
+
+export type LLMCompletion = {
+    text: string
+    usage?: TokenUsage
+}
+
+export type TokenUsage = {
+    inputTokens: number
+    outputTokens: number
+}
+
+// One completed model call, kept for metering whether or not its output was usable
+export type LLMCall = TokenUsage & {
+    provider: string
+    model: string
+}
+
+export type LLMRequest = {
+    text: string
+    systemPrompt: string
+    // Validation errors of a rejected previous answer, for the retry
+    feedback?: string[]
+}
+
+export type ProviderAnswer = {
+    data: RewriteResponse
+    provider: string
+    model: string
+}
+
+export type ProviderAttempt = {
+    provider: string
+    error: string
+    // Schema violations when the provider answered but its output was unusable
+    validation_errors?: string[]
+}
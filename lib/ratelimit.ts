@@ -1,55 +1,47 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { cookies } from 'next/headers';
 import { randomUUID } from 'crypto';
+import { fetchUpstash, hasUpstash } from './upstash';
 
 // Types
-export type RateLimitScope = 'global_min' | 'user_30s' | 'user_day';
+// 'unavailable': the shared store could not be reached and the failure policy is closed
+export type RateLimitScope = 'global_min' | 'user_30s' | 'user_day' | 'unavailable';
 
 export interface RateLimitResult {
     ok: boolean;
     scope?: RateLimitScope;
     retryAfterSeconds?: number;
+    remainingToday?: number;
 }
 
+export interface QuotaStatus {
+    scope: Exclude<RateLimitScope, 'unavailable'>;
+    limit: number;
+    remaining: number;
+    resetSeconds: number;
+}
+
+// 'fixed' counts per calendar window; 'sliding' also weighs in the previous window, so a
+// burst straddling a window boundary can't get twice the limit. The daily quota is always
+// per calendar day in RATE_TZ.
+export type RateLimitAlgorithm = 'fixed' | 'sliding';
+
 // Config
 const GLOBAL_RPM = parseInt(process.env.RATE_GLOBAL_RPM || '9', 10);
 const USER_RPD = parseInt(process.env.RATE_USER_RPD || '20', 10);
 const USER_30S = parseInt(process.env.RATE_USER_30S || '1', 10);
 const RATE_TZ = process.env.RATE_TZ || 'America/Los_Angeles';
+export const RATE_ALGORITHM: RateLimitAlgorithm = process.env.RATE_ALGORITHM === 'sliding' ? 'sliding' : 'fixed';
+// When Upstash is configured but unreachable: 'open' falls back to per-instance limits, 'closed' refuses
+const RATE_FAILURE_POLICY = process.env.RATE_LIMIT_FAILURE === 'closed' ? 'closed' : 'open';
 
 // In-memory fallback
 const memoryCache = new Map<string, { count: number; expires: number }>();
 
-// Upstash Helper
-async function fetchUpstash(command: string[]) {
-    const url = process.env.UPSTASH_REDIS_REST_URL;
-    const token = process.env.UPSTASH_REDIS_REST_TOKEN;
-
-    if (!url || !token) return null;
-
-    try {
-        const response = await fetch(`${url}`, {
-            method: 'POST',
-            headers: {
-                Authorization: `Bearer ${token}`,
-                'Content-Type': 'application/json',
-            },
-            body: JSON.stringify(command),
-        });
-        const data = await response.json();
-        return data.result;
-    } catch (error) {
-        console.error('Upstash Redis error:', error);
-        return null;
-    }
-}
-
 /**
  * Anonymous ID management
  */
 export function getOrSetAnonId(req: NextRequest): string {
-    const cookieStore = cookies();
-    const existingId = cookieStore.get('anon_id')?.value;
+    const existingId = req.cookies.get('anon_id')?.value;
 
     if (existingId) return existingId;
 
@@ -59,6 +51,18 @@ export function getOrSetAnonId(req: NextRequest): string {
     return newId;
 }
 
+/**
+ * The caller's IP address as seen by the nearest trusted proxy. Clients can prepend anything
+ * to X-Forwarded-For, so the address is counted from the right: TRUSTED_PROXY_HOPS (default 1)
+ * is the number of proxies in front of the app that append to the header.
+ */
+export function clientIp(headers: Headers): string {
+    const hops = process.env.TRUSTED_PROXY_HOPS !== undefined ? parseInt(process.env.TRUSTED_PROXY_HOPS, 10) : 1;
+    const forwarded = (headers.get('x-forwarded-for') || '').split(',').map(s => s.trim()).filter(Boolean);
+    if (hops > 0 && forwarded.length > 0) return forwarded[Math.max(0, forwarded.length - hops)];
+    return 'unknown';
+}
+
 export function setAnonIdCookie(response: NextResponse, id: string) {
     const isProd = process.env.NODE_ENV === 'production';
     response.cookies.set('anon_id', id, {
@@ -73,12 +77,47 @@ export function setAnonIdCookie(response: NextResponse, id: string) {
 /**
  * Rate Limit Logic
  */
-export async function consumeExpensiveCall(anonId: string): Promise<RateLimitResult> {
-    const now = Math.floor(Date.now() / 1000);
 
-    // Buckets
-    const bucket30s = Math.floor(now / 30);
-    const bucketMin = Math.floor(now / 60);
+// One limit to check: the counter of the current window, and of the previous one for sliding windows
+interface Bucket {
+    scope: QuotaStatus['scope'];
+    limit: number;
+    key: string;
+    prevKey: string;
+    prevWeight: number; // share of the previous window still inside the sliding window; 0 for fixed
+    ttlSeconds: number;
+    resetSeconds: number;
+    cost: number; // units this request charges, capped at what is left in the bucket
+}
+
+function secondsUntilMidnight(): number {
+    const tzNow = new Date(new Date().toLocaleString('en-US', { timeZone: RATE_TZ }));
+    const tzMidnight = new Date(tzNow);
+    tzMidnight.setHours(24, 0, 0, 0);
+    return Math.floor((tzMidnight.getTime() - tzNow.getTime()) / 1000);
+}
+
+// The short windows bound the request rate and charge 1 per request; the daily quota bounds
+// provider spend and charges `units` (a document charges one per paragraph it sends to the model).
+// A charge is capped at what is left, so a document with more paragraphs than the daily quota
+// can still run once, using up the rest of the day.
+function bucketsFor(subject: string, units = 1): Bucket[] {
+    const now = Date.now() / 1000;
+    const windowBucket = (scope: Bucket['scope'], prefix: string, limit: number, window: number): Bucket => {
+        const index = Math.floor(now / window);
+        const elapsed = (now % window) / window;
+        const sliding = RATE_ALGORITHM === 'sliding';
+        return {
+            scope,
+            limit,
+            key: `${prefix}:${index}`,
+            prevKey: sliding ? `${prefix}:${index - 1}` : `${prefix}:${index}`,
+            prevWeight: sliding ? 1 - elapsed : 0,
+            ttlSeconds: window * 3,
+            resetSeconds: Math.ceil(window - (now % window)),
+            cost: 1,
+        };
+    };
 
     // Date in TZ
     const dateStr = new Intl.DateTimeFormat('en-CA', {
@@ -87,67 +126,118 @@ export async function consumeExpensiveCall(anonId: string): Promise<RateLimitRes
         month: '2-digit',
         day: '2-digit',
     }).format(new Date());
+    const dayKey = `rl:ud:${subject}:${dateStr}`;
 
-    const keys = {
-        u30: `rl:u30:${anonId}:${bucket30s}`,
-        gm: `rl:gm:${bucketMin}`,
-        ud: `rl:ud:${anonId}:${dateStr}`,
-    };
+    return [
+        windowBucket('global_min', 'rl:gm', GLOBAL_RPM, 60),
+        windowBucket('user_30s', `rl:u30:${subject}`, USER_30S, 30),
+        { scope: 'user_day', limit: USER_RPD, key: dayKey, prevKey: dayKey, prevWeight: 0, ttlSeconds: 172800, resetSeconds: secondsUntilMidnight(), cost: units }, // 48h
+    ];
+}
+
+// Checks every bucket before charging any, so a request refused by one limit doesn't use up the others.
+// A bucket is exceeded when it has nothing left; otherwise it is charged its cost, capped at what is left.
+// KEYS: key, prevKey per bucket. ARGV: 'consume' | 'peek', then limit, prevWeight, ttl, cost per bucket.
+// Returns [ok, index of the exceeded bucket (1-based, 0 if none), usage per bucket...]
+const RATE_LIMIT_SCRIPT = `
+local n = #KEYS / 2
+local used = {}
+local costs = {}
+local exceeded = 0
+for i = 1, n do
+    local cur = tonumber(redis.call('GET', KEYS[2 * i - 1]) or '0')
+    local prev = 0
+    if KEYS[2 * i] ~= KEYS[2 * i - 1] then prev = tonumber(redis.call('GET', KEYS[2 * i]) or '0') end
+    used[i] = math.floor(prev * tonumber(ARGV[4 * i - 1]) + cur)
+    costs[i] = math.min(tonumber(ARGV[4 * i + 1]), tonumber(ARGV[4 * i - 2]) - used[i])
+    if exceeded == 0 and costs[i] < 1 then exceeded = i end
+end
+if ARGV[1] == 'consume' and exceeded == 0 then
+    for i = 1, n do
+        redis.call('INCRBY', KEYS[2 * i - 1], costs[i])
+        redis.call('EXPIRE', KEYS[2 * i - 1], ARGV[4 * i])
+        used[i] = used[i] + costs[i]
+    end
+end
+local ok = 0
+if exceeded == 0 then ok = 1 end
+return { ok, exceeded, unpack(used) }
+`;
+
+type BucketOutcome = { exceeded: Bucket | null; used: number[] };
+
+async function runUpstash(buckets: Bucket[], action: 'consume' | 'peek'): Promise<BucketOutcome | null> {
+    const keys = buckets.flatMap(b => [b.key, b.prevKey]);
+    const args = buckets.flatMap(b => [String(b.limit), String(b.prevWeight), String(b.ttlSeconds), String(b.cost)]);
+    const result = await fetchUpstash(['EVAL', RATE_LIMIT_SCRIPT, String(keys.length), ...keys, action, ...args]);
+    if (!Array.isArray(result) || result.length !== buckets.length + 2) return null;
+    return { exceeded: result[1] > 0 ? buckets[result[1] - 1] : null, used: result.slice(2).map(Number) };
+}
 
-    const hasUpstash = !!process.env.UPSTASH_REDIS_REST_URL;
-
-    if (hasUpstash) {
-        // Pipeline or parallel requests to Upstash
-        // 1. Check Global Min
-        const gmCount = await fetchUpstash(['INCR', keys.gm]) as number;
-        if (gmCount === 1) await fetchUpstash(['EXPIRE', keys.gm, '180']);
-        if (gmCount > GLOBAL_RPM) return { ok: false, scope: 'global_min', retryAfterSeconds: 60 - (now % 60) };
-
-        // 2. Check User 30s
-        const u30Count = await fetchUpstash(['INCR', keys.u30]) as number;
-        if (u30Count === 1) await fetchUpstash(['EXPIRE', keys.u30, '90']);
-        if (u30Count > USER_30S) return { ok: false, scope: 'user_30s', retryAfterSeconds: 30 - (now % 30) };
-
-        // 3. Check User Daily
-        const udCount = await fetchUpstash(['INCR', keys.ud]) as number;
-        if (udCount === 1) await fetchUpstash(['EXPIRE', keys.ud, '172800']); // 48h
-        if (udCount > USER_RPD) {
-            // Find seconds until tomorrow in TZ
-            const tzNow = new Date(new Date().toLocaleString('en-US', { timeZone: RATE_TZ }));
-            const tzMidnight = new Date(tzNow);
-            tzMidnight.setHours(24, 0, 0, 0);
-            const secondsUntilReset = Math.floor((tzMidnight.getTime() - tzNow.getTime()) / 1000);
-            return { ok: false, scope: 'user_day', retryAfterSeconds: secondsUntilReset };
+// Best-effort in-memory (per instance), same algorithm as the script
+function runMemory(buckets: Bucket[], action: 'consume' | 'peek'): BucketOutcome {
+    const now = Date.now() / 1000;
+    const count = (key: string) => {
+        const entry = memoryCache.get(key);
+        if (!entry || now > entry.expires) return 0;
+        return entry.count;
+    };
+    const used = buckets.map(b => Math.floor((b.prevKey === b.key ? 0 : count(b.prevKey) * b.prevWeight) + count(b.key)));
+    const costs = buckets.map((b, i) => Math.min(b.cost, b.limit - used[i]));
+    const exceeded = buckets.find((_, i) => costs[i] < 1) || null;
+    if (action === 'consume' && !exceeded) {
+        buckets.forEach((b, i) => {
+            const entry = memoryCache.get(b.key);
+            memoryCache.set(b.key, entry && now <= entry.expires ? { count: entry.count + costs[i], expires: entry.expires } : { count: costs[i], expires: now + b.ttlSeconds });
+            used[i] += costs[i];
+        });
+        // Window keys never repeat, so sweep out the expired ones now and then
+        if (memoryCache.size > 10000) {
+            memoryCache.forEach((entry, key) => { if (now > entry.expires) memoryCache.delete(key); });
         }
+    }
+    return { exceeded, used };
+}
 
-        return { ok: true };
-    } else {
-        // Best-effort in-memory (per instance)
-        const checkMem = (key: string, limit: number, ttl: number, scope: RateLimitScope): RateLimitResult | null => {
-            const entry = memoryCache.get(key) || { count: 0, expires: now + ttl };
-            if (now > entry.expires) {
-                entry.count = 0;
-                entry.expires = now + ttl;
-            }
-            entry.count++;
-            memoryCache.set(key, entry);
-
-            if (entry.count > limit) {
-                return { ok: false, scope, retryAfterSeconds: entry.expires - now };
-            }
-            return null;
-        };
+// null when the shared store is down and the failure policy is closed
+async function runBuckets(buckets: Bucket[], action: 'consume' | 'peek'): Promise<BucketOutcome | null> {
+    if (!hasUpstash()) return runMemory(buckets, action);
+    const outcome = await runUpstash(buckets, action);
+    if (outcome) return outcome;
+    console.warn(`[RateLimit] event=store_unavailable policy=${RATE_FAILURE_POLICY}`);
+    return RATE_FAILURE_POLICY === 'closed' ? null : runMemory(buckets, action);
+}
 
-        const r1 = checkMem(keys.gm, GLOBAL_RPM, 60, 'global_min');
-        if (r1) return r1;
-        const r2 = checkMem(keys.u30, USER_30S, 30, 'user_30s');
-        if (r2) return r2;
-        const r3 = checkMem(keys.ud, USER_RPD, 86400, 'user_day');
-        if (r3) {
-            // Memory fallback approximation
-            return r3;
-        }
+// Signed-in users are limited per account (across browsers); anonymous callers per anon_id cookie
+export function rateLimitSubject(userId: string | null, anonId: string): string {
+    return userId ? `user:${userId}` : anonId;
+}
 
-        return { ok: true };
-    }
+/**
+ * Checks and charges one request of `units` model-bound paragraphs against every limit, atomically.
+ * The daily charge is capped at what is left of the quota.
+ */
+export async function consumeExpensiveCall(subject: string, units = 1): Promise<RateLimitResult> {
+    const buckets = bucketsFor(subject, units);
+    const outcome = await runBuckets(buckets, 'consume');
+    if (!outcome) return { ok: false, scope: 'unavailable', retryAfterSeconds: 30 };
+    if (outcome.exceeded) return { ok: false, scope: outcome.exceeded.scope, retryAfterSeconds: outcome.exceeded.resetSeconds };
+    return { ok: true, remainingToday: Math.max(0, USER_RPD - outcome.used[buckets.length - 1]) };
+}
+
+/** Remaining quota per scope, without charging anything; null when the store is down and the policy is closed. */
+export async function getRateLimitStatus(subject: string): Promise<QuotaStatus[] | null> {
+    const buckets = bucketsFor(subject);
+    const outcome = await runBuckets(buckets, 'peek');
+    if (!outcome) return null;
+    return buckets.map((b, i) => ({
+        scope: b.scope,
+        limit: b.limit,
+        remaining: Math.max(0, b.limit - outcome.used[i]),
+        resetSeconds: b.resetSeconds,
+    }));
+}
+
+export function rateLimitBackend(): 'upstash' | 'memory' {
+    return hasUpstash() ? 'upstash' : 'memory';
 }
@@ -0,0 +1,128 @@
+import { Change, RewriteResponse } from '@/types'
+import { dmp } from '@/lib/dmp'
+import { diffHunks } from '@/lib/rewrite/guard'
+
+// Editing the revised text by hand: reported changes follow the editor's edits, and only the
+// sentences the editor touched are sent back for a re-check
+
+export type TextRange = { start: number; end: number }
+
+/**
+ * Moves every located change from `oldText` into `newText`. A change whose text the edit
+ * altered no longer describes the text, so it loses its loc (it stays listed, unlocated).
+ */
+export function reprojectChanges(changes: Change[], oldText: string, newText: string): Change[] {
+    if (oldText === newText) return changes
+    const diffs = dmp.diff_main(oldText, newText)
+    return changes.map(c => {
+        if (!c.loc) return c
+        const start = dmp.diff_xIndex(diffs, c.loc.start)
+        const end = c.loc.end === c.loc.start ? start : dmp.diff_xIndex(diffs, c.loc.end)
+        const intact = oldText.slice(c.loc.start, c.loc.end) === newText.slice(start, end)
+        return intact ? { ...c, loc: { start, end } } : { ...c, loc: undefined }
+    })
+}
+
+const SENTENCE_END = /[.!?]/
+const CLOSING = /["”’)\]*_]/
+
+// Start of the sentence around `index`: after the previous sentence end or line break
+function sentenceStart(text: string, index: number): number {
+    let i = index
+    while (i > 0 && text[i - 1] !== '\n') {
+        if (/\s/.test(text[i - 1])) {
+            let j = i - 2
+            while (j >= 0 && CLOSING.test(text[j])) j--
+            if (j >= 0 && SENTENCE_END.test(text[j])) break
+        }
+        i--
+    }
+    while (i < index && /\s/.test(text[i])) i++
+    return i
+}
+
+// End of the sentence around `index`, terminal punctuation and closing quotes included
+function sentenceEnd(text: string, index: number): number {
+    for (let i = index; i < text.length; i++) {
+        if (text[i] === '\n') return i
+        if (!SENTENCE_END.test(text[i])) continue
+        let j = i + 1
+        while (j < text.length && CLOSING.test(text[j])) j++
+        if (j >= text.length || /\s/.test(text[j])) return j
+    }
+    return text.length
+}
+
+/**
+ * The sentences of `current` that differ from `checked` (the text as last checked), merged
+ * where they touch and split at line breaks. Ranges are in `current`.
+ */
+export function editedRanges(checked: string, current: string): TextRange[] {
+    const ranges: TextRange[] = []
+    for (const hunk of diffHunks(checked, current)) {
+        const start = sentenceStart(current, hunk.revStart)
+        const end = sentenceEnd(current, Math.max(hunk.revEnd - 1, hunk.revStart))
+        const last = ranges[ranges.length - 1]
+        if (last && start <= last.end) last.end = Math.max(last.end, end)
+        else ranges.push({ start, end })
+    }
+
+    // One range per line, without surrounding whitespace
+    const lines: TextRange[] = []
+    for (const range of ranges) {
+        const regex = /[^\n]+/g
+        const slice = current.slice(range.start, range.end)
+        let m
+        while ((m = regex.exec(slice)) !== null) {
+            const lead = m[0].length - m[0].trimStart().length
+            const text = m[0].trim()
+            if (text) lines.push({ start: range.start + m.index + lead, end: range.start + m.index + lead + text.length })
+        }
+    }
+    return lines
+}
+
+// The ranges are sent as one document (one rate-limited call), a paragraph each
+export const RECHECK_SEPARATOR = '\n\n'
+
+export function recheckText(text: string, ranges: TextRange[]): string {
+    return ranges.map(r => text.slice(r.start, r.end)).join(RECHECK_SEPARATOR)
+}
+
+/** Splits the result for `recheckText` back into one result per range; null if the paragraphs no longer line up. */
+export function splitRecheckResult(result: RewriteResponse, count: number): RewriteResponse[] | null {
+    const pieces = result.revised_text.split(RECHECK_SEPARATOR)
+    if (pieces.length !== count) return null
+    let offset = 0
+    return pieces.map(piece => {
+        const start = offset
+        offset += piece.length + RECHECK_SEPARATOR.length
+        const changes = result.changes
+            .filter(c => c.loc && c.loc.start >= start && c.loc.end <= start + piece.length)
+            .map(c => ({ ...c, loc: { start: c.loc!.start - start, end: c.loc!.end - start } }))
+        return { revised_text: piece, changes }
+    })
+}
+
+/**
+ * Splices re-checked ranges into `current`. Existing changes are re-projected through the
+ * re-check's edits; the re-check's own changes are shifted into place and numbered after them.
+ */
+export function mergeRecheck(current: RewriteResponse, ranges: TextRange[], rechecked: RewriteResponse[]): RewriteResponse {
+    let revisedText = ''
+    let cursor = 0
+    const added: Change[] = []
+    let nextId = Math.max(0, ...current.changes.map(c => Number(c.change_id.replace(/^\D+/, '')) || 0)) + 1
+    ranges.forEach((range, i) => {
+        revisedText += current.revised_text.slice(cursor, range.start)
+        const offset = revisedText.length
+        for (const c of rechecked[i].changes) {
+            added.push({ ...c, change_id: `c${nextId++}`, loc: c.loc && { start: c.loc.start + offset, end: c.loc.end + offset } })
+        }
+        revisedText += rechecked[i].revised_text
+        cursor = range.end
+    })
+    revisedText += current.revised_text.slice(cursor)
+
+    return { revised_text: revisedText, changes: [...reprojectChanges(current.changes, current.revised_text, revisedText), ...added] }
+}
@@ -0,0 +1,100 @@
+import { Change } from '@/types'
+import { dmp } from '@/lib/dmp'
+
+const CONTEXT_CHARS = 30
+
+// One contiguous edit between two texts; rev* offsets are in the revised text
+export type DiffHunk = {
+    deleted: string
+    inserted: string
+    revStart: number
+    revEnd: number
+}
+
+export function diffHunks(before: string, after: string): DiffHunk[] {
+    const diffs: [number, string][] = dmp.diff_main(before, after)
+    dmp.diff_cleanupSemantic(diffs)
+
+    const hunks: DiffHunk[] = []
+    let revPos = 0
+    for (let i = 0; i < diffs.length; i++) {
+        if (diffs[i][0] === 0) {
+            revPos += diffs[i][1].length
+            continue
+        }
+        // Consecutive deletions/insertions between two equalities form one hunk
+        const hunk: DiffHunk = { deleted: '', inserted: '', revStart: revPos, revEnd: revPos }
+        while (i < diffs.length && diffs[i][0] !== 0) {
+            if (diffs[i][0] === -1) hunk.deleted += diffs[i][1]
+            else hunk.inserted += diffs[i][1]
+            i++
+        }
+        i--
+        revPos += hunk.inserted.length
+        hunk.revEnd = revPos
+        hunks.push(hunk)
+    }
+    return hunks
+}
+
+function touches(loc: { start: number; end: number }, hunk: DiffHunk): boolean {
+    return loc.start <= hunk.revEnd && loc.end >= hunk.revStart
+}
+
+// Widens a hunk to whole words so "colo[u]r" is reported as colour → color
+function widenToWords(hunk: DiffHunk, after: string): DiffHunk {
+    const isWordChar = (ch: string | undefined) => !!ch && /[\p{L}\p{N}'’]/u.test(ch)
+    let start = hunk.revStart
+    let end = hunk.revEnd
+    while (isWordChar(after[start - 1])) start--
+    while (isWordChar(after[end])) end++
+    const prefix = after.slice(start, hunk.revStart)
+    const suffix = after.slice(hunk.revEnd, end)
+    return { deleted: prefix + hunk.deleted + suffix, inserted: prefix + hunk.inserted + suffix, revStart: start, revEnd: end }
+}
+
+export type GuardResult = {
+    changes: Change[]
+    phantom: number
+    synthesized: number
+}
+
+/**
+ * Reconciles the changes an LLM pass reported with what it actually did to the text.
+ * `reported` must be located in `after`. A located change that touches no diff hunk is a
+ * phantom and is dropped (unlocated ones are left for the pipeline to discard); a hunk
+ * that no reported change touches becomes a synthesized `other` change marked `uncertain`.
+ */
+export function reconcileWithDiff(before: string, after: string, reported: Change[]): GuardResult {
+    const hunks = diffHunks(before, after)
+    const covered = new Set<DiffHunk>()
+    let phantom = 0
+
+    const kept = reported.filter(c => {
+        if (!c.loc) return true
+        const matched = hunks.filter(h => touches(c.loc!, h))
+        if (matched.length === 0) {
+            phantom++
+            return false
+        }
+        matched.forEach(h => covered.add(h))
+        return true
+    })
+
+    const synthesized: Change[] = hunks
+        .filter(h => !covered.has(h))
+        .map(h => widenToWords(h, after))
+        .map((h, i) => ({
+            change_id: `unreported${i + 1}`,
+            type: 'other',
+            severity: 'uncertain',
+            reason: 'Edit made by the model without an explanation. Review it before accepting.',
+            before: h.deleted,
+            after: h.inserted,
+            context_before: after.slice(Math.max(0, h.revStart - CONTEXT_CHARS), h.revStart),
+            context_after: after.slice(h.revEnd, h.revEnd + CONTEXT_CHARS),
+            loc: { start: h.revStart, end: h.revEnd }
+        }))
+
+    return { changes: [...kept, ...synthesized], phantom, synthesized: synthesized.length }
+}
@@ -0,0 +1,130 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { RewriteResponse } from '@/types'
+import { StyleProfile, getDefaultProfile, getProfile } from '@/lib/profiles'
+import { TextFormat, htmlToMarkdown } from '@/lib/richtext'
+import { recordUsage } from '@/lib/usage'
+import { authEnabled, sessionFromRequest } from '@/lib/auth'
+import { MAX_DOCUMENT_LENGTH, MAX_TEXT_LENGTH, PipelineMeta, RewriteOutcome } from './pipeline'
+
+interface ErrorResponse {
+    error: {
+        type: string
+        message: string
+    }
+}
+
+// Helper to create error response
+export function errorResponse(
+    status: number,
+    type: string,
+    message: string
+): NextResponse<ErrorResponse> {
+    return NextResponse.json(
+        { error: { type, message } },
+        {
+            status,
+            headers: {
+                'Cache-Control': 'no-store',
+            },
+        }
+    )
+}
+
+// Helper to create success response
+export function successResponse(
+    data: RewriteResponse
+): NextResponse<RewriteResponse> {
+    return NextResponse.json(data, {
+        headers: {
+            'Cache-Control': 'no-store',
+        },
+    })
+}
+
+export type RewriteRequest = {
+    text: string
+    documentMode: boolean
+    cacheBypass: boolean
+    mode: 'mock' | 'real'
+    provider: string
+    profile: StyleProfile
+    format: TextFormat
+    userId: string | null
+}
+
+// Reads and validates the request body shared by /api/rewrite and /api/rewrite/stream
+export async function parseRewriteRequest(req: NextRequest): Promise<RewriteRequest> {
+    // The middleware already turns away requests without a session; checked again so the route never runs unauthenticated
+    const session = await sessionFromRequest(req)
+    if (authEnabled() && !session) {
+        throw { status: 401, json: { error: { type: 'unauthorized', message: 'Sign in required' } } }
+    }
+
+    const body = await req.json().catch(() => null)
+    if (!body || typeof body !== 'object') {
+        throw { status: 400, json: { error: { type: 'invalid_request', message: 'Request body must be a JSON object' } } }
+    }
+    const { mode: inputMode, profile: profileId, format: inputFormat = 'plain' } = body
+    if (!['plain', 'markdown', 'html'].includes(inputFormat)) {
+        throw { status: 400, json: { error: { type: 'invalid_request', message: 'format must be one of plain, markdown, html' } } }
+    }
+    // HTML is sanitized down to the inline Markdown the pipeline works on; results come back as Markdown
+    const text = inputFormat === 'html' && typeof body.text === 'string' ? htmlToMarkdown(body.text) : body.text
+    const documentMode = inputMode === 'document'
+    const maxLength = documentMode ? MAX_DOCUMENT_LENGTH : MAX_TEXT_LENGTH
+    if (!text || typeof text !== 'string' || text.length > maxLength) {
+        throw { status: 400, json: { error: { type: 'invalid_request', message: 'Invalid text' } } }
+    }
+
+    const profile = profileId === undefined ? getDefaultProfile() : getProfile(profileId)
+    if (!profile) {
+        throw { status: 400, json: { error: { type: 'invalid_request', message: `Unknown style profile: ${profileId}` } } }
+    }
+
+    return {
+        text,
+        documentMode,
+        cacheBypass: req.headers.get('x-cache-bypass') === '1',
+        mode: process.env.USE_MOCK === '1' ? 'mock' : 'real',
+        provider: process.env.LLM_PROVIDER || 'gemini',
+        profile,
+        format: inputFormat === 'plain' ? 'plain' : 'markdown',
+        userId: session?.sub ?? null,
+    }
+}
+
+// Cache/provider metadata reported as X-* headers (JSON) or on the final stream event
+export function outcomeHeaders(outcome: RewriteOutcome, meta: PipelineMeta): Record<string, string> {
+    const headers: Record<string, string> = { 'X-Cache': outcome.cacheStatus }
+    if (outcome.cacheStatus === 'HIT') {
+        headers['X-Provider'] = 'cache'
+    } else if (outcome.deduped) {
+        headers['X-Dedupe'] = 'HIT'
+    } else {
+        headers['X-Provider'] = meta.provider
+        headers['X-Model'] = meta.model
+        if (meta.meaningGuard) headers['X-Meaning-Guard'] = meta.meaningGuard
+    }
+    if (outcome.paragraphs > 1) headers['X-Paragraphs'] = String(outcome.paragraphs)
+    return headers
+}
+
+// Meters one request. `outcome` is null when the rewrite failed; failures are only metered
+// once the pipeline ran (rejected and rate-limited requests cost nothing).
+export async function meterRewrite(anonId: string, userId: string | null, meta: PipelineMeta, outcome: RewriteOutcome | null, startedAt: number): Promise<void> {
+    if (!outcome && meta.iterations === 0) return
+    const fromCache = outcome?.cacheStatus === 'HIT'
+    await recordUsage({
+        timestamp: startedAt,
+        anonId,
+        ...(userId ? { userId } : {}),
+        provider: fromCache ? 'cache' : meta.provider,
+        model: fromCache ? 'cache' : meta.model,
+        status: outcome ? 'ok' : 'error',
+        cacheStatus: outcome ? outcome.cacheStatus : 'NONE',
+        paragraphs: outcome?.paragraphs ?? 0,
+        iterations: meta.iterations,
+        calls: meta.calls,
+        latencyMs: Date.now() - startedAt,
+    })
+}
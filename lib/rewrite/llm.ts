@@ -0,0 +1,80 @@
+import { StyleProfile } from '@/lib/profiles'
+import { numberToWords } from '@/lib/rules/numbers'
+
+export const PROMPT_VERSION = 'v1.4' // Increment when prompt changes
+
+const BASE_PROMPT = `You are a technical editor for The Chicago Manual of Style ({edition} edition).
+Your task is to identify and apply technical Chicago-style revisions to the user's text.
+
+STRICT SCOPE:
+- Punctuation (e.g., em-dashes, smart quotes, comma placement)
+- Spacing (e.g., single spaces between sentences)
+- Capitalization (e.g., proper nouns, titles)
+- Quotation and bracket placement
+- Grammar fixes explicitly justified by Chicago style
+
+DO NOT:
+- Perform stylistic paraphrasing or content-level rewrites.
+- Change the author's voice or word choice unless it is technically incorrect under Chicago style.
+- Add, remove, or summarize information.
+
+IDEMPOTENCY CONTRACT:
+- The goal is BATCH NORMALIZATION. 
+- You must identify ALL technical issues in a single pass.
+- If the text is already technically correct, return the same text and an empty changes array.
+- Re-running your output through this process should result in ZERO changes.
+
+JSON Structure:
+{
+  "revised_text": "...",
+  "changes": [
+    { "change_id": "c1", "type": "spelling"|"punctuation"|"grammar"|"capitalization"|"spacing"|"hyphenation"|"numbers"|"formatting"|"other", "before": "...", "after": "...", "reason": "...", "severity": "required"|"recommended", "context_before": "...", "context_after": "..." }
+  ]
+}`
+
+const GLOSSARY_INSTRUCTION = '- NEVER change these terms (spelling, capitalization, hyphenation), even if they look wrong: '
+
+// House style sheet appended to the base prompt; empty for plain Chicago
+function houseStyleSection(profile: StyleProfile): string {
+    const o = profile.overrides || {}
+    const lines: string[] = []
+    if (o.serialComma === false) lines.push('- Do NOT add the serial (Oxford) comma; this house omits it.')
+    if (o.spellOutNumbersThrough !== undefined) lines.push(`- Spell out whole numbers from zero through ${numberToWords(o.spellOutNumbersThrough)}; use numerals above that.`)
+    for (const [variant, preferred] of Object.entries(o.spellings || {})) lines.push(`- Spell "${variant}" as "${preferred}".`)
+    if (o.citationSystem === 'author-date') lines.push('- Citations follow the Chicago author-date system (Smith 2019, 45), not notes and bibliography.')
+    if (o.ibid === 'allow') lines.push('- "Ibid." is acceptable in notes.')
+    for (const note of o.notes || []) lines.push(`- ${note}`)
+    if (profile.glossary && profile.glossary.length > 0) {
+        lines.push(`${GLOSSARY_INSTRUCTION}${profile.glossary.map(t => `"${t}"`).join(', ')}.`)
+    }
+    if (lines.length === 0) return ''
+    return `\n\nHOUSE STYLE (${profile.name}; overrides Chicago where they conflict):\n${lines.join('\n')}`
+}
+
+/** The glossary terms a system prompt tells the model to leave alone (what the mock provider honors). */
+export function glossaryFromPrompt(systemPrompt: string): string[] {
+    const line = systemPrompt.split('\n').find(l => l.startsWith(GLOSSARY_INSTRUCTION))
+    if (!line) return []
+    return Array.from(line.slice(GLOSSARY_INSTRUCTION.length).matchAll(/"([^"]*)"/g), m => m[1])
+}
+
+// Appended when the text carries inline Markdown (see lib/richtext.ts)
+const FORMATTING_SECTION = `
+
+FORMATTING:
+The text uses inline Markdown: *italic* (or _italic_), **bold**, [small caps]{.smallcaps}, and \\ to escape a literal marker.
+- Keep every existing marker unless Chicago requires the formatting to change; never add other Markdown (headings, links, lists).
+- Italicize titles of books, journals, newspapers, films, and other freestanding works (CMoS 8.171).
+- Titles of articles, chapters, and other parts of a larger work go in quotation marks, in roman (CMoS 8.175).
+- Report each formatting edit as a change with type "formatting", with the markers included in "before" and "after" (e.g. "before": "\\"Moby-Dick\\"", "after": "*Moby-Dick*").`
+
+export function buildSystemPrompt(profile: StyleProfile, options: { markdown?: boolean } = {}): string {
+    return BASE_PROMPT.replace('{edition}', `${profile.edition}th`) + houseStyleSection(profile) + (options.markdown ? FORMATTING_SECTION : '')
+}
+
+// User turn of the prompt; on the retry it carries the validation errors of the rejected answer
+export function buildUserPrompt(text: string, feedback?: string[]): string {
+    const prompt = `Review and correct this text:\n\n${text}`
+    if (!feedback || feedback.length === 0) return prompt
+    return `${prompt}\n\nYour previous response was rejected because it did not match the required JSON structure:\n${feedback.map(e => `- ${e}`).join('\n')}\nReturn only the corrected JSON object.`
+}
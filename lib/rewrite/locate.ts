@@ -0,0 +1,124 @@
+import { Change } from '@/types'
+import { dmp } from '@/lib/dmp'
+
+const DEBUG_LOC = process.env.DEBUG_LOC === '1'
+
+// --- Robust Location Logic ---
+
+function normalizeForContext(str: string): string {
+    return str.replace(/[^a-z0-9]/gi, '').toLowerCase()
+}
+
+function getContextScore(text: string, anchorStr: string, isStart: boolean): number {
+    if (!anchorStr) return 0.5
+    const normalizedAnchor = normalizeForContext(anchorStr)
+    const normalizedText = normalizeForContext(text)
+
+    if (isStart) {
+        // Longest common suffix
+        let score = 0
+        for (let i = 1; i <= Math.min(normalizedAnchor.length, normalizedText.length, 30); i++) {
+            if (normalizedAnchor.slice(-i) === normalizedText.slice(-i)) {
+                score = i
+            } else {
+                break
+            }
+        }
+        return score
+    } else {
+        // Longest common prefix
+        let score = 0
+        for (let i = 1; i <= Math.min(normalizedAnchor.length, normalizedText.length, 30); i++) {
+            if (normalizedAnchor.slice(0, i) === normalizedText.slice(0, i)) {
+                score = i
+            } else {
+                break
+            }
+        }
+        return score
+    }
+}
+
+export function locateChangeInText(text: string, change: Change): { start: number; end: number } | null {
+    if (change.type === 'INSERT_AT_END') {
+        const s = Math.max(0, text.length - change.after.length)
+        return { start: s, end: text.length }
+    }
+    const searchText = change.after.trim()
+
+    // If it's a deletion (empty after), we look for the insertion point between context_before and context_after
+    if (!searchText) {
+        if (!change.context_before.trim() && !change.context_after.trim()) return null
+        const cb = change.context_before.slice(-15)
+        const ca = change.context_after.slice(0, 15)
+        // Contexts are often trimmed by the model, so also try the gap with one space or none
+        const joins = [[cb, ca], [cb.trimEnd() + ' ', ca.trimStart()], [cb.trimEnd(), ca.trimStart()]]
+        for (const [before, after] of joins) {
+            const idx = text.indexOf(before + after)
+            if (idx !== -1) return { start: idx + before.length, end: idx + before.length }
+        }
+        return null
+    }
+
+    const candidates: { index: number; score: number; length: number }[] = []
+    let searchStart = 0
+
+    while (searchStart < text.length) {
+        const idx = text.indexOf(searchText, searchStart)
+        if (idx === -1) break
+
+        const textBefore = text.substring(Math.max(0, idx - 40), idx)
+        const textAfter = text.substring(idx + searchText.length, idx + searchText.length + 40)
+
+        const scoreBefore = getContextScore(textBefore, change.context_before, true)
+        const scoreAfter = getContextScore(textAfter, change.context_after, false)
+
+        candidates.push({
+            index: idx,
+            score: scoreBefore + scoreAfter + 1.0,
+            length: searchText.length
+        })
+        searchStart = idx + 1
+    }
+
+    if (candidates.length === 0) return null
+    candidates.sort((a, b) => b.score - a.score)
+    return { start: candidates[0].index, end: candidates[0].index + candidates[0].length }
+}
+
+export function projectCoordinates(start: number, end: number, oldText: string, newText: string): { start: number; end: number } | null {
+    try {
+        const diffs = dmp.diff_main(oldText, newText)
+        // dmp.diff_charsToLines_ is also possible but for small text diff_main is fine
+        const locStart = dmp.diff_xIndex(diffs, start)
+        const locEnd = dmp.diff_xIndex(diffs, end)
+
+        // If the entire range was deleted or becomes invalid, xIndex might still return a point.
+        // We should check if the projected range makes sense.
+        if (locStart === locEnd && start !== end) {
+            // Range collapsed to a point, likely deleted
+            return null
+        }
+        return { start: locStart, end: locEnd }
+    } catch (e) {
+        return null
+    }
+}
+
+// Projects every located change into newText. If a range cannot be projected (e.g. the
+// next pass rewrote around it), fall back to searching for it in the new text.
+export function projectChanges(changes: Change[], oldText: string, newText: string): Change[] {
+    return changes.map(c => {
+        if (!c.loc) return c
+        const newLoc = projectCoordinates(c.loc.start, c.loc.end, oldText, newText) || locateChangeInText(newText, c)
+        return { ...c, loc: newLoc || undefined }
+    })
+}
+
+export function recalculateAllLocations(text: string, changes: Change[]): Change[] {
+    return changes.map(change => {
+        if (change.loc) return change // Keep existing if already projected/located
+        const loc = locateChangeInText(text, change)
+        return { ...change, loc: loc || undefined }
+    })
+}
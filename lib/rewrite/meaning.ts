@@ -0,0 +1,246 @@
+// Server-side enforcement of "do not change meaning" (SPEC §3): measures how far an LLM
+// pass moved away from its input and decides whether the pass is acceptable.
+
+export type MeaningLimits = {
+    maxWordEditRatio: number // word-level edit distance / number of input words, spelling fixes excluded
+    maxContentWordChanges: number // content words added or removed (spelling fixes excluded)
+    maxNumberChanges: number
+    maxProperNounChanges: number
+}
+
+// What to do with a pass over the limits: drop it (keep cheap-rules output) or keep it with its changes marked uncertain
+export type MeaningAction = 'reject' | 'flag'
+
+export type PassMetrics = {
+    wordEditRatio: number
+    contentWordsAdded: string[]
+    contentWordsRemoved: string[]
+    numbersChanged: string[]
+    properNounsChanged: string[]
+}
+
+export type MeaningVerdict = {
+    ok: boolean
+    metrics: PassMetrics
+    violations: string[]
+}
+
+export function meaningLimits(): MeaningLimits {
+    const num = (name: string, fallback: number) => {
+        const value = Number(process.env[name])
+        return process.env[name] !== undefined && Number.isFinite(value) ? value : fallback
+    }
+    return {
+        maxWordEditRatio: num('MEANING_MAX_WORD_EDIT_RATIO', 0.25),
+        maxContentWordChanges: num('MEANING_MAX_CONTENT_WORD_CHANGES', 3),
+        maxNumberChanges: num('MEANING_MAX_NUMBER_CHANGES', 0),
+        maxProperNounChanges: num('MEANING_MAX_PROPER_NOUN_CHANGES', 0),
+    }
+}
+
+export function meaningAction(): MeaningAction {
+    return process.env.MEANING_GUARD_ACTION === 'flag' ? 'flag' : 'reject'
+}
+
+const STOPWORDS = new Set(('a an the and or but nor so yet for of in on at to from by with as into onto upon about over under ' +
+    'is are was were be been being am do does did has have had it its it’s it\'s this that these those there their they them ' +
+    'he she his her him we us our you your i me my not no if then than which who whom whose what when where why how ' +
+    'can could will would shall should may might must also very just only such each any all some both either neither').split(' '))
+
+const NUMBER_WORDS: Record<string, string> = {
+    zero: '0', one: '1', two: '2', three: '3', four: '4', five: '5', six: '6', seven: '7', eight: '8', nine: '9', ten: '10',
+    eleven: '11', twelve: '12', thirteen: '13', fourteen: '14', fifteen: '15', sixteen: '16', seventeen: '17', eighteen: '18',
+    nineteen: '19', twenty: '20', thirty: '30', forty: '40', fifty: '50', sixty: '60', seventy: '70', eighty: '80', ninety: '90',
+    hundred: '100', thousand: '1000', million: '1000000', billion: '1000000000'
+}
+
+const ORDINAL_WORDS: Record<string, string> = {
+    first: '1', second: '2', third: '3', fourth: '4', fifth: '5', sixth: '6', seventh: '7', eighth: '8', ninth: '9', tenth: '10',
+    eleventh: '11', twelfth: '12', thirteenth: '13', fourteenth: '14', fifteenth: '15', sixteenth: '16', seventeenth: '17',
+    eighteenth: '18', nineteenth: '19', twentieth: '20', thirtieth: '30', fortieth: '40', fiftieth: '50', sixtieth: '60',
+    seventieth: '70', eightieth: '80', ninetieth: '90', hundredth: '100', thousandth: '1000', millionth: '1000000', billionth: '1000000000'
+}
+
+// What may follow a number word inside one number: "twenty-five", "two hundred", "three thousand four hundred"
+type NumberWordKind = 'unit' | 'teen' | 'ten' | 'hundred' | 'scale'
+
+function numberWordKind(value: number): NumberWordKind {
+    if (value < 10) return 'unit'
+    if (value < 20) return 'teen'
+    if (value < 100) return 'ten'
+    return value === 100 ? 'hundred' : 'scale'
+}
+
+const FOLLOWS: Record<NumberWordKind, NumberWordKind[]> = {
+    unit: ['hundred', 'scale'],
+    teen: ['hundred', 'scale'],
+    ten: ['unit', 'scale'],
+    hundred: ['unit', 'teen', 'ten', 'scale'],
+    scale: ['unit', 'teen', 'ten'],
+}
+
+// Value of a run of number words, or null when the words do not make one number ("two three")
+function numberFromWords(words: string[]): number | null {
+    let total = 0
+    let current = 0
+    let last = null as NumberWordKind | null
+    for (let i = 0; i < words.length; i++) {
+        const ordinal = ORDINAL_WORDS[words[i]]
+        // An ordinal can only end the number ("twenty-first")
+        if (ordinal && i < words.length - 1) return null
+        const value = Number(ordinal || NUMBER_WORDS[words[i]])
+        const kind = numberWordKind(value)
+        if (last && !FOLLOWS[last].includes(kind)) return null
+        if (kind === 'hundred') current = (current || 1) * 100
+        else if (kind === 'scale') {
+            total += (current || 1) * value
+            current = 0
+        } else current += value
+        last = kind
+    }
+    return total + current
+}
+
+const NUMBER_WORD = `(?:${[...Object.keys(NUMBER_WORDS), ...Object.keys(ORDINAL_WORDS)].join('|')})`
+const NUMBER_WORD_RUN = new RegExp(`\\b${NUMBER_WORD}(?:[- ]${NUMBER_WORD})*\\b`, 'gi')
+
+// Chicago's number edits (CMoS 9.2–9.7, 9.64) write the same value another way: "25" → "twenty-five",
+// "5th" → "fifth", "March 5th" → "March 5", "321–328" → "321–28". Writes every number as its digits
+// so that none of them counts as a changed word or number.
+function normalizeNumbers(text: string): string {
+    return text
+        .replace(NUMBER_WORD_RUN, run => {
+            const words = run.toLowerCase().split(/[- ]/)
+            const value = numberFromWords(words)
+            if (value !== null) return String(value)
+            // Not one number ("one two"): each word on its own
+            return words.map(w => ORDINAL_WORDS[w] || NUMBER_WORDS[w]).join(' ')
+        })
+        .replace(/\b(\d+)(?:st|nd|rd|th)\b/gi, '$1')
+        .replace(/\b(\d+)([-–])(\d+)\b/g, (range, first: string, dash: string, second: string) => {
+            if (second.length >= first.length) return range
+            const full = first.slice(0, first.length - second.length) + second
+            return Number(full) > Number(first) ? `${first}${dash}${full}` : range
+        })
+}
+
+type Token = { word: string; sentenceStart: boolean }
+
+function tokenize(text: string): Token[] {
+    const tokens: Token[] = []
+    const regex = /[\p{L}\p{N}]+(?:['’.,][\p{L}\p{N}]+)*/gu
+    let m
+    while ((m = regex.exec(text)) !== null) {
+        const preceding = text.slice(0, m.index).replace(/[\s*_]+$/, '') // skip rich-text emphasis markers
+        tokens.push({ word: m[0], sentenceStart: !preceding || /[.!?:"“‘(\[—]$/.test(preceding) })
+    }
+    return tokens
+}
+
+function editDistance<T>(a: T[], b: T[], same: (x: T, y: T) => boolean = (x, y) => x === y): number {
+    let prev = Array.from({ length: b.length + 1 }, (_, j) => j)
+    for (let i = 1; i <= a.length; i++) {
+        const curr = [i]
+        for (let j = 1; j <= b.length; j++) {
+            curr[j] = Math.min(prev[j] + 1, curr[j - 1] + 1, prev[j - 1] + (same(a[i - 1], b[j - 1]) ? 0 : 1))
+        }
+        prev = curr
+    }
+    return prev[b.length]
+}
+
+// recieve/receive, teh/the: close enough to be a spelling fix rather than a different word
+function looksAlike(a: string, b: string): boolean {
+    if (a === b) return true
+    if (Math.abs(a.length - b.length) > 2) return false
+    return editDistance(Array.from(a), Array.from(b)) <= Math.max(1, Math.floor(Math.max(a.length, b.length) / 3))
+}
+
+// Multiset difference: items of `a` not matched by an item of `b`
+function multisetMinus(a: string[], b: string[]): string[] {
+    const counts = new Map<string, number>()
+    for (const x of b) counts.set(x, (counts.get(x) || 0) + 1)
+    return a.filter(x => {
+        const n = counts.get(x) || 0
+        if (n === 0) return true
+        counts.set(x, n - 1)
+        return false
+    })
+}
+
+// Pairs each removed word with an added look-alike (recieve → receive) and drops both: that is a spelling fix
+function withoutSpellingFixes(removed: string[], added: string[]): { removed: string[]; added: string[] } {
+    const remainingAdded = [...added]
+    const remainingRemoved = removed.filter(r => {
+        const idx = remainingAdded.findIndex(a => looksAlike(r, a))
+        if (idx === -1) return true
+        remainingAdded.splice(idx, 1)
+        return false
+    })
+    return { removed: remainingRemoved, added: remainingAdded }
+}
+
+function numbersIn(tokens: Token[]): string[] {
+    return tokens
+        .map(t => t.word.toLowerCase())
+        .map(w => NUMBER_WORDS[w] || w.replace(/,/g, ''))
+        .filter(w => /^\d+(?:\.\d+)?$/.test(w))
+}
+
+// Capitalized words that are not capitalized merely because they start a sentence
+function properNounsIn(tokens: Token[]): string[] {
+    return tokens.filter(t => !t.sentenceStart && /^\p{Lu}/u.test(t.word)).map(t => t.word)
+}
+
+export function measurePass(before: string, after: string): PassMetrics {
+    const beforeTokens = tokenize(normalizeNumbers(before))
+    const afterTokens = tokenize(normalizeNumbers(after))
+    const beforeWords = beforeTokens.map(t => t.word.toLowerCase())
+    const afterWords = afterTokens.map(t => t.word.toLowerCase())
+
+    const isContent = (w: string) => !STOPWORDS.has(w) && !/^\d/.test(w) && !NUMBER_WORDS[w]
+    const content = withoutSpellingFixes(
+        multisetMinus(beforeWords.filter(isContent), afterWords.filter(isContent)),
+        multisetMinus(afterWords.filter(isContent), beforeWords.filter(isContent))
+    )
+
+    const beforeNumbers = numbersIn(beforeTokens)
+    const afterNumbers = numbersIn(afterTokens)
+
+    // A name counts as changed when its spelling (ignoring case) disappears or a new one appears.
+    // Capitalizing an existing word ("paris" → "Paris") is not a change of name.
+    const beforeSet = new Set(beforeWords)
+    const afterSet = new Set(afterWords)
+    const properNounsChanged = [
+        ...properNounsIn(beforeTokens).filter(w => !afterSet.has(w.toLowerCase())),
+        ...properNounsIn(afterTokens).filter(w => !beforeSet.has(w.toLowerCase())),
+    ]
+
+    return {
+        // Spelling fixes are not rewording, so look-alike substitutions are free
+        wordEditRatio: editDistance(beforeWords, afterWords, looksAlike) / Math.max(1, beforeWords.length),
+        contentWordsAdded: content.added,
+        contentWordsRemoved: content.removed,
+        numbersChanged: [...multisetMinus(beforeNumbers, afterNumbers), ...multisetMinus(afterNumbers, beforeNumbers)],
+        properNounsChanged,
+    }
+}
+
+export function checkMeaningPreserved(before: string, after: string, limits: MeaningLimits = meaningLimits()): MeaningVerdict {
+    const metrics = measurePass(before, after)
+    const violations: string[] = []
+    if (metrics.wordEditRatio > limits.maxWordEditRatio) {
+        violations.push(`${Math.round(metrics.wordEditRatio * 100)}% of words changed`)
+    }
+    const contentChanges = metrics.contentWordsAdded.length + metrics.contentWordsRemoved.length
+    if (contentChanges > limits.maxContentWordChanges) {
+        violations.push(`content words changed (${[...metrics.contentWordsRemoved.map(w => `-${w}`), ...metrics.contentWordsAdded.map(w => `+${w}`)].join(', ')})`)
+    }
+    if (metrics.numbersChanged.length > limits.maxNumberChanges) {
+        violations.push(`numbers changed (${metrics.numbersChanged.join(', ')})`)
+    }
+    if (metrics.properNounsChanged.length > limits.maxProperNounChanges) {
+        violations.push(`proper nouns changed (${metrics.properNounsChanged.join(', ')})`)
+    }
+    return { ok: violations.length === 0, metrics, violations }
+}
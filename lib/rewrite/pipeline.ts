@@ -0,0 +1,350 @@
+import { RewriteResponse, Change } from '@/types'
+import { consumeExpensiveCall, rateLimitSubject } from '@/lib/ratelimit'
+import { cacheKey, cacheTtlMs, getCache } from '@/lib/cache'
+import { applyCheapRules, checkCitations, checkConsistency } from '@/lib/rules'
+import { StyleProfile, profileFingerprint } from '@/lib/profiles'
+import { TextFormat } from '@/lib/richtext'
+import { LLMCall, providerChain, rewriteWithFallback } from '@/lib/providers'
+import { PROMPT_VERSION, buildSystemPrompt } from './llm'
+import { reconcileWithDiff } from './guard'
+import { checkMeaningPreserved, meaningAction } from './meaning'
+import { locateChangeInText, projectChanges } from './locate'
+
+export const MAX_TEXT_LENGTH = 4000 // per paragraph
+export const MAX_DOCUMENT_LENGTH = 60000
+
+// --- Cache & Dedupe ---
+// Results live in the configured cache backend (lib/cache); in-flight requests are deduped per process
+const pendingRequests = new Map<string, Promise<RewriteResponse>>()
+
+export function generateCacheKey(text: string, mode: string, provider: string, profile: StyleProfile, format: TextFormat = 'plain'): string {
+    const normalized = text.trim().replace(/\r\n/g, '\n')
+    return cacheKey([normalized, mode, provider, profileFingerprint(profile), format, PROMPT_VERSION])
+}
+
+// --- Fixed-Point Pipeline ---
+
+// Provider/model that actually served the most recent LLM pass
+export type PipelineMeta = {
+    provider: string
+    model: string
+    // Set when the meaning guard rejected or flagged an LLM pass
+    meaningGuard?: 'rejected' | 'flagged'
+    // Every model call and fixed-point iteration of the request (all paragraphs), for usage metering
+    calls: LLMCall[]
+    iterations: number
+}
+
+// `units` is the number of paragraphs the request sends to the model (see consumeExpensiveCall)
+export async function guardExpensiveCall(subject: string, mode: string, units = 1) {
+    if (process.env.MAINTENANCE_MODE === '1') throw { status: 503, json: { error: 'Service unavailable' } }
+    const countMockAsExpensive = process.env.COUNT_MOCK_AS_EXPENSIVE === '1'
+    const isExpensive = mode === 'real' || (mode === 'mock' && countMockAsExpensive)
+
+    if (isExpensive) {
+        const rateLimitResult = await consumeExpensiveCall(subject, units)
+        if (!rateLimitResult.ok) {
+            // A closed failure policy refuses requests while the shared limiter store is down
+            const unavailable = rateLimitResult.scope === 'unavailable'
+            throw { status: unavailable ? 503 : 429, json: { error: unavailable ? 'Rate limiter unavailable' : 'Rate limit exceeded', scope: rateLimitResult.scope, retry_after_seconds: rateLimitResult.retryAfterSeconds }, retryAfter: rateLimitResult.retryAfterSeconds }
+        }
+    }
+}
+
+// Intermediate state reported while the fixed-point loop runs: cheap-rule output, then each LLM pass
+export type ProgressStage = 'rules' | 'llm_pass'
+export type ProgressHandler = (stage: ProgressStage, pass: number, snapshot: RewriteResponse) => void
+
+// Keeps only located changes, drops duplicate locations and renumbers change_ids
+function finalizeChanges(allChanges: Change[]): Change[] {
+    const seenLocs = new Set<string>()
+    return allChanges
+        .filter(c => c.loc) // Only keep located changes
+        .filter(c => {
+            const key = `${c.loc!.start}-${c.loc!.end}`
+            if (seenLocs.has(key)) return false
+            seenLocs.add(key)
+            return true
+        })
+        .map((c, i) => ({
+            ...c,
+            change_id: `c${i + 1}`
+        }))
+}
+
+export async function runFixedPoint(
+    text: string,
+    mode: string,
+    provider: string,
+    profile: StyleProfile,
+    format: TextFormat,
+    meta: PipelineMeta,
+    onProgress?: ProgressHandler
+): Promise<RewriteResponse> {
+    const upstreamStart = Date.now()
+    let currentText = text
+    let allChanges: Change[] = []
+    let iterations = 0
+    const MAX_ITERATIONS = 3
+    let stable = false
+    const markdown = format === 'markdown'
+    const systemPrompt = buildSystemPrompt(profile, { markdown })
+
+    while (!stable && iterations < MAX_ITERATIONS) {
+        iterations++
+        const textAtStartOfPass = currentText
+
+        // 1. Cheap Rules
+        const passRuleResult = applyCheapRules(currentText, profile, { markdown })
+        const textAfterRules = passRuleResult.revisedText
+
+        // 2. LLM Pass
+        meta.iterations++
+        const answer = await rewriteWithFallback({ text: textAfterRules, systemPrompt }, providerChain(mode, provider), call => meta.calls.push(call))
+        meta.provider = answer.provider; meta.model = answer.model
+        let passResult = answer.data
+
+        // 3. Meaning guard: a pass that rewords rather than corrects is dropped or flagged
+        const verdict = checkMeaningPreserved(textAfterRules, passResult.revised_text)
+        let flagNote = ''
+        if (!verdict.ok) {
+            const action = meaningAction()
+            meta.meaningGuard = action === 'reject' ? 'rejected' : 'flagged'
+            console.warn(`[Rewrite] event=meaning_guard action=${action} provider=${meta.provider} pass=${iterations} violations=${JSON.stringify(verdict.violations)}`)
+            if (action === 'reject') {
+                // Keep the cheap-rules output and stop asking the model
+                passResult = { revised_text: textAfterRules, changes: [] }
+                stable = true
+            } else {
+                flagNote = ` [Flagged: this pass may change meaning: ${verdict.violations.join('; ')}.]`
+            }
+        }
+
+        const textAfterLLM = passResult.revised_text
+
+        // Check stability
+        if (textAfterLLM === textAtStartOfPass) {
+            stable = true
+        }
+
+        // --- TRACK LOCATIONS ---
+
+        // A. Project existing changes from textAtStartOfPass to textAfterRules
+        if (textAfterRules !== textAtStartOfPass) {
+            allChanges = projectChanges(allChanges, textAtStartOfPass, textAfterRules)
+        }
+
+        // B. Add rules changes. The rules engine records exact locs relative to textAfterRules.
+        allChanges.push(...passRuleResult.changes)
+        if (passRuleResult.changes.length > 0) {
+            onProgress?.('rules', iterations, { revised_text: textAfterRules, changes: finalizeChanges(allChanges) })
+        }
+
+        // C. Project everything to textAfterLLM
+        if (textAfterLLM !== textAfterRules) {
+            allChanges = projectChanges(allChanges, textAfterRules, textAfterLLM)
+        }
+
+        // D. Add LLM changes (located relative to textAfterLLM)
+        const isSuffixOnly = textAfterLLM.startsWith(textAfterRules) && textAfterLLM.length > textAfterRules.length
+        const locatedLLMChanges = passResult.changes.map(c => {
+            let finalType = c.type
+            // Detect if this is an insertion at the very end
+            if (isSuffixOnly && (!c.context_after || !c.context_after.trim()) && textAfterLLM.endsWith(c.after)) {
+                finalType = 'INSERT_AT_END'
+            }
+            const loc = locateChangeInText(textAfterLLM, { ...c, type: finalType })
+            return { ...c, type: finalType, loc: loc || undefined }
+        })
+
+        // E. Keep only changes the diff confirms, and surface edits the model did not report
+        const guarded = reconcileWithDiff(textAfterRules, textAfterLLM, locatedLLMChanges)
+        if (guarded.phantom > 0 || guarded.synthesized > 0) {
+            console.warn(`[Rewrite] event=llm_changes_reconciled provider=${meta.provider} phantom=${guarded.phantom} synthesized=${guarded.synthesized}`)
+        }
+        allChanges.push(...(flagNote
+            ? guarded.changes.map(c => ({ ...c, severity: 'uncertain' as const, reason: c.reason + flagNote }))
+            : guarded.changes))
+        onProgress?.('llm_pass', iterations, { revised_text: textAfterLLM, changes: finalizeChanges(allChanges) })
+
+        currentText = textAfterLLM
+    }
+
+    console.log(`[Rewrite] event=fixed_point_complete provider=${meta.provider} iterations=${iterations} duration=${Date.now() - upstreamStart}ms`)
+
+    return {
+        revised_text: currentText,
+        changes: finalizeChanges(allChanges)
+    }
+}
+
+// Whole-text passes over a finished result: citation formatting, then variant forms.
+// Earlier changes are projected into each pass's output.
+export function applyDocumentChecks(data: RewriteResponse, profile: StyleProfile): RewriteResponse {
+    let result = data
+    for (const check of [checkCitations, checkConsistency]) {
+        const pass = check(result.revised_text, profile)
+        if (pass.changes.length === 0) continue
+        const projected = projectChanges(result.changes, result.revised_text, pass.revisedText)
+        result = { revised_text: pass.revisedText, changes: finalizeChanges([...projected, ...pass.changes]) }
+    }
+    return result
+}
+
+type CachedRewrite = {
+    data: RewriteResponse
+    cacheStatus: 'HIT' | 'MISS'
+    deduped: boolean
+}
+
+// Serves one paragraph from the cache, an identical in-flight request, or a fresh pipeline run.
+// `beforeUpstream` runs only when the pipeline is actually about to run (maintenance + rate limits).
+// Progress is only reported for fresh runs.
+export async function rewriteWithCache(
+    text: string,
+    opts: { mode: string; provider: string; profile: StyleProfile; format: TextFormat; cacheBypass: boolean; meta: PipelineMeta; beforeUpstream: () => Promise<void>; onProgress?: ProgressHandler }
+): Promise<CachedRewrite> {
+    const key = generateCacheKey(text, opts.mode, opts.provider, opts.profile, opts.format)
+
+    if (!opts.cacheBypass) {
+        const cached = await getCache().get<RewriteResponse>(key)
+        if (cached) return { data: cached, cacheStatus: 'HIT', deduped: false }
+    }
+
+    if (pendingRequests.has(key)) {
+        try {
+            const data = await pendingRequests.get(key)!
+            return { data, cacheStatus: 'MISS', deduped: true }
+        } catch (e) { }
+    }
+
+    const processingPromise = (async () => {
+        await opts.beforeUpstream()
+        return runFixedPoint(text, opts.mode, opts.provider, opts.profile, opts.format, opts.meta, opts.onProgress)
+    })()
+
+    pendingRequests.set(key, processingPromise)
+    try {
+        const data = await processingPromise
+        await getCache().set(key, data, cacheTtlMs())
+        return { data, cacheStatus: 'MISS', deduped: false }
+    } finally { pendingRequests.delete(key) }
+}
+
+export type RewriteOptions = {
+    anonId: string
+    userId: string | null // signed-in user; null when authentication is disabled
+    mode: string
+    provider: string
+    profile: StyleProfile
+    format: TextFormat // 'markdown' when the text carries inline formatting
+    cacheBypass: boolean
+    meta: PipelineMeta
+    onProgress?: ProgressHandler
+}
+
+export type RewriteOutcome = {
+    data: RewriteResponse
+    cacheStatus: 'HIT' | 'MISS' | 'PARTIAL'
+    deduped: boolean
+    paragraphs: number
+}
+
+export async function rewriteParagraph(text: string, opts: RewriteOptions): Promise<RewriteOutcome> {
+    const { data, cacheStatus, deduped } = await rewriteWithCache(text, {
+        ...opts,
+        beforeUpstream: () => guardExpensiveCall(rateLimitSubject(opts.userId, opts.anonId), opts.mode)
+    })
+    if (cacheStatus === 'HIT') console.log(`[Rewrite] event=cache_hit anon_id=${opts.anonId}`)
+    return { data: applyDocumentChecks(data, opts.profile), cacheStatus, deduped, paragraphs: 1 }
+}
+
+// --- Document Mode ---
+
+type Paragraph = {
+    text: string
+    separator: string // whitespace/line breaks that followed this paragraph in the input
+}
+
+// Paragraphs are separated by blank lines; a single line break (verse, an address) stays inside its paragraph
+export function splitParagraphs(text: string): { leading: string; paragraphs: Paragraph[] } {
+    const leading = text.match(/^\s*/)![0]
+    const parts = text.slice(leading.length).split(/(\s*\n[ \t]*\r?\n\s*)/)
+    const paragraphs: Paragraph[] = []
+    for (let i = 0; i < parts.length; i += 2) {
+        if (!parts[i]) {
+            // Trailing separator: attach to the previous paragraph
+            if (paragraphs.length > 0) paragraphs[paragraphs.length - 1].separator += parts[i + 1] || ''
+            continue
+        }
+        // Only the last part can end in whitespace that is not a blank line
+        const trailing = parts[i].match(/\s*$/)![0]
+        paragraphs.push({ text: parts[i].slice(0, parts[i].length - trailing.length), separator: trailing + (parts[i + 1] || '') })
+    }
+    return { leading, paragraphs }
+}
+
+// Concatenates per-paragraph results, shifting each change's loc by the paragraph's offset in the merged text
+export function mergeParagraphResults(leading: string, paragraphs: Paragraph[], results: RewriteResponse[]): RewriteResponse {
+    let revisedText = leading
+    const changes: Change[] = []
+
+    results.forEach((result, i) => {
+        const offset = revisedText.length
+        for (const c of result.changes) {
+            changes.push({
+                ...c,
+                change_id: `c${changes.length + 1}`,
+                loc: c.loc ? { start: c.loc.start + offset, end: c.loc.end + offset } : undefined
+            })
+        }
+        revisedText += result.revised_text + paragraphs[i].separator
+    })
+
+    return { revised_text: revisedText, changes }
+}
+
+/**
+ * Runs each paragraph through the same cached fixed-point pipeline and merges the results.
+ * Before any paragraph runs, the document is charged one unit per distinct paragraph the
+ * cache cannot serve, capped at what is left of the daily quota, so it is never cut off
+ * halfway: a document with more paragraphs than are left uses up the rest of the day.
+ * Progress snapshots cover the whole document: finished paragraphs, the one in flight,
+ * and the untouched remainder.
+ */
+export async function rewriteDocument(text: string, opts: RewriteOptions): Promise<RewriteOutcome> {
+    const { leading, paragraphs } = splitParagraphs(text)
+    if (paragraphs.length === 0) throw { status: 400, json: { error: { type: 'invalid_request', message: 'Invalid text' } } }
+    if (paragraphs.some(p => p.text.length > MAX_TEXT_LENGTH)) {
+        throw { status: 400, json: { error: { type: 'invalid_request', message: `Each paragraph must be at most ${MAX_TEXT_LENGTH} characters` } } }
+    }
+
+    const misses = new Set<string>()
+    for (const p of paragraphs) {
+        const key = generateCacheKey(p.text, opts.mode, opts.provider, opts.profile, opts.format)
+        if (opts.cacheBypass || !(await getCache().get<RewriteResponse>(key))) misses.add(key)
+    }
+    if (misses.size > 0) await guardExpensiveCall(rateLimitSubject(opts.userId, opts.anonId), opts.mode, misses.size)
+    const beforeUpstream = async () => { }
+
+    const results: RewriteResponse[] = []
+    let hits = 0
+    for (let i = 0; i < paragraphs.length; i++) {
+        const onProgress: ProgressHandler | undefined = opts.onProgress && ((stage, pass, snapshot) => {
+            const pending = paragraphs.slice(i + 1).map(p => ({ revised_text: p.text, changes: [] }))
+            opts.onProgress!(stage, pass, mergeParagraphResults(leading, paragraphs, [...results, snapshot, ...pending]))
+        })
+        const { data, cacheStatus } = await rewriteWithCache(paragraphs[i].text, { ...opts, beforeUpstream, onProgress })
+        if (cacheStatus === 'HIT') hits++
+        results.push(data)
+    }
+    console.log(`[Rewrite] event=document_complete anon_id=${opts.anonId} paragraphs=${paragraphs.length} cache_hits=${hits}`)
+
+    return {
+        // Citations and consistency are checked across the whole document, not per paragraph
+        data: applyDocumentChecks(mergeParagraphResults(leading, paragraphs, results), opts.profile),
+        cacheStatus: hits === paragraphs.length ? 'HIT' : hits > 0 ? 'PARTIAL' : 'MISS',
+        deduped: false,
+        paragraphs: paragraphs.length
+    }
+}
@@ -0,0 +1,128 @@
+import { Change, ChangeType, RewriteResponse, Severity } from '@/types'
+
+// Types the model may report; INSERT_AT_END is assigned by the pipeline, never by the model
+const MODEL_CHANGE_TYPES: ChangeType[] = ['spelling', 'grammar', 'punctuation', 'capitalization', 'hyphenation', 'numbers', 'consistency', 'citation_format', 'spacing', 'formatting', 'other']
+const SEVERITIES: Severity[] = ['required', 'recommended', 'optional', 'uncertain']
+
+export type ValidationResult =
+    | { ok: true; value: RewriteResponse; repaired: boolean }
+    | { ok: false; errors: string[] }
+
+// --- Repair ---
+
+// Strips Markdown fences and any prose before the first `{` or after the last `}`
+function extractJsonObject(raw: string): string {
+    let text = raw.trim()
+    const fenced = text.match(/```(?:json)?\s*\n?([\s\S]*?)(?:\n?```|$)/)
+    if (fenced) text = fenced[1].trim()
+    const start = text.indexOf('{')
+    if (start === -1) return text
+    const end = text.lastIndexOf('}')
+    return end > start ? text.slice(start, end + 1) : text.slice(start)
+}
+
+/**
+ * Closes a JSON document that was cut off mid-way (token limit, dropped connection).
+ * Tries each position just after a complete object/array, from the end backwards, and
+ * appends whatever brackets are still open at that point. Returns null when nothing parses.
+ */
+function closeTruncatedJson(text: string): unknown | null {
+    const stack: string[] = []
+    const cutPoints: { index: number; closers: string }[] = []
+    let inString = false
+    for (let i = 0; i < text.length; i++) {
+        const ch = text[i]
+        if (inString) {
+            if (ch === '\\') i++
+            else if (ch === '"') inString = false
+            continue
+        }
+        if (ch === '"') inString = true
+        else if (ch === '{') stack.push('}')
+        else if (ch === '[') stack.push(']')
+        else if (ch === '}' || ch === ']') {
+            stack.pop()
+            cutPoints.push({ index: i + 1, closers: stack.slice().reverse().join('') })
+        }
+    }
+
+    for (let k = cutPoints.length - 1; k >= 0 && k >= cutPoints.length - 50; k--) {
+        const { index, closers } = cutPoints[k]
+        try { return JSON.parse(text.slice(0, index) + closers) } catch { }
+    }
+    return null
+}
+
+function repairJson(raw: string): { json: unknown; repaired: boolean } | null {
+    try { return { json: JSON.parse(raw), repaired: false } } catch { }
+    const extracted = extractJsonObject(raw)
+    try { return { json: JSON.parse(extracted), repaired: true } } catch { }
+    try { return { json: JSON.parse(extracted.replace(/,\s*([}\]])/g, '$1')), repaired: true } } catch { }
+    const closed = closeTruncatedJson(extracted)
+    return closed === null ? null : { json: closed, repaired: true }
+}
+
+// --- Validation ---
+
+function validateChange(c: any, i: number, errors: string[]): Change | null {
+    const at = `changes[${i}]`
+    if (!c || typeof c !== 'object' || Array.isArray(c)) {
+        errors.push(`${at} must be an object`)
+        return null
+    }
+    const before = errors.length
+    for (const field of ['change_id', 'reason'] as const) {
+        if (typeof c[field] !== 'string' || !c[field].trim()) errors.push(`${at}.${field} must be a non-empty string`)
+    }
+    for (const field of ['before', 'after'] as const) {
+        if (typeof c[field] !== 'string') errors.push(`${at}.${field} must be a string`)
+    }
+    // Context may be omitted at the edges of the text, but must be a string when present
+    for (const field of ['context_before', 'context_after'] as const) {
+        if (c[field] !== undefined && typeof c[field] !== 'string') errors.push(`${at}.${field} must be a string`)
+    }
+    if (!MODEL_CHANGE_TYPES.includes(c.type)) errors.push(`${at}.type must be one of ${MODEL_CHANGE_TYPES.join(', ')} (got ${JSON.stringify(c.type)})`)
+    if (!SEVERITIES.includes(c.severity)) errors.push(`${at}.severity must be one of ${SEVERITIES.join(', ')} (got ${JSON.stringify(c.severity)})`)
+    if (errors.length > before) return null
+
+    return {
+        change_id: c.change_id,
+        type: c.type,
+        severity: c.severity,
+        reason: c.reason,
+        before: c.before,
+        after: c.after,
+        context_before: c.context_before ?? '',
+        context_after: c.context_after ?? ''
+    }
+}
+
+export function validateRewriteResponse(json: any, inputText: string): ValidationResult {
+    const errors: string[] = []
+    if (!json || typeof json !== 'object' || Array.isArray(json)) {
+        return { ok: false, errors: ['Response must be a JSON object with "revised_text" and "changes"'] }
+    }
+    if (typeof json.revised_text !== 'string') errors.push('revised_text must be a string')
+    else if (inputText.trim() && !json.revised_text.trim()) errors.push('revised_text must not be empty')
+    if (!Array.isArray(json.changes)) errors.push('changes must be an array')
+
+    const changes: Change[] = []
+    if (Array.isArray(json.changes)) {
+        json.changes.forEach((c: any, i: number) => {
+            const change = validateChange(c, i, errors)
+            // A change that alters nothing is noise, not an error
+            if (change && change.before !== change.after) changes.push(change)
+        })
+    }
+
+    if (errors.length > 0) return { ok: false, errors }
+    return { ok: true, value: { revised_text: json.revised_text, changes }, repaired: false }
+}
+
+/** Repairs and validates raw model output against the RewriteResponse schema. */
+export function parseModelOutput(raw: string, inputText: string): ValidationResult {
+    const parsed = repairJson(raw)
+    if (!parsed) return { ok: false, errors: ['Response is not valid JSON'] }
+    const result = validateRewriteResponse(parsed.json, inputText)
+    return result.ok ? { ...result, repaired: parsed.repaired } : result
+}
@@ -0,0 +1,253 @@
+import { TextRun } from '@/types'
+
+// Rich text travels through the pipeline as a small inline Markdown subset, so every pass
+// (cheap rules, LLM, diffing, locating) keeps working on one string and formatting edits
+// are ordinary text edits:
+//   *italic*  _italic_  **bold**  [small caps]{.smallcaps}  \* (literal)
+
+export type TextFormat = 'plain' | 'markdown'
+
+const SMALL_CAPS_CLOSE = ']{.smallcaps}'
+
+type InlineStyle = { italic?: boolean; bold?: boolean; smallCaps?: boolean }
+
+// Per character of the Markdown source: its style, or null for a marker that is not displayed
+export type InlineScan = (InlineStyle | null)[]
+
+function isWordChar(ch: string | undefined): boolean {
+    return !!ch && /[\p{L}\p{N}]/u.test(ch)
+}
+
+// An emphasis marker opens before non-space text and closes after it (CommonMark flanking, simplified)
+function canOpen(md: string, i: number, len: number): boolean {
+    const next = md[i + len]
+    return next !== undefined && !/\s/.test(next)
+}
+
+function canClose(md: string, i: number): boolean {
+    const prev = md[i - 1]
+    return prev !== undefined && !/\s/.test(prev)
+}
+
+function hasCloser(md: string, from: number, marker: string): boolean {
+    let idx = md.indexOf(marker, from)
+    while (idx !== -1) {
+        if (md[idx - 1] !== '\\' && canClose(md, idx) && (marker !== '*' || md[idx + 1] !== '*')) return true
+        idx = md.indexOf(marker, idx + marker.length)
+    }
+    return false
+}
+
+export function scanInline(md: string): InlineScan {
+    const scan: InlineScan = new Array(md.length)
+    let italic: string | null = null // the marker that opened the italic span
+    let bold = false
+    let smallCaps = false
+    const style = (): InlineStyle => ({
+        ...(italic ? { italic: true } : {}),
+        ...(bold ? { bold: true } : {}),
+        ...(smallCaps ? { smallCaps: true } : {}),
+    })
+
+    for (let i = 0; i < md.length; i++) {
+        const ch = md[i]
+        if (ch === '\\' && /[*_[\]\\]/.test(md[i + 1] || '')) {
+            scan[i] = null
+            scan[i + 1] = style()
+            i++
+            continue
+        }
+        if (ch === '*' && md[i + 1] === '*') {
+            if (bold && canClose(md, i)) { bold = false; scan[i] = scan[i + 1] = null; i++; continue }
+            if (!bold && canOpen(md, i, 2) && hasCloser(md, i + 2, '**')) { bold = true; scan[i] = scan[i + 1] = null; i++; continue }
+        }
+        if (ch === '*' || (ch === '_' && !isWordChar(italic ? md[i + 1] : md[i - 1]))) {
+            if (italic === ch && canClose(md, i)) { italic = null; scan[i] = null; continue }
+            if (!italic && canOpen(md, i, 1) && hasCloser(md, i + 1, ch)) { italic = ch; scan[i] = null; continue }
+        }
+        if (ch === '[' && !smallCaps) {
+            const close = md.indexOf(SMALL_CAPS_CLOSE, i + 1)
+            const nextOpen = md.indexOf('[', i + 1)
+            if (close !== -1 && (nextOpen === -1 || nextOpen > close)) { smallCaps = true; scan[i] = null; continue }
+        }
+        if (smallCaps && md.startsWith(SMALL_CAPS_CLOSE, i)) {
+            smallCaps = false
+            for (let k = 0; k < SMALL_CAPS_CLOSE.length; k++) scan[i + k] = null
+            i += SMALL_CAPS_CLOSE.length - 1
+            continue
+        }
+        scan[i] = style()
+    }
+    return scan
+}
+
+export function hasInlineMarkup(md: string): boolean {
+    return scanInline(md).some(s => s === null)
+}
+
+/**
+ * The displayed runs of md[start, end), with markers removed. Pass the scan of the whole
+ * source so that spans opened before `start` keep their style.
+ */
+export function styledRuns(md: string, start = 0, end = md.length, scan: InlineScan = scanInline(md)): TextRun[] {
+    const runs: TextRun[] = []
+    for (let i = start; i < end; i++) {
+        const s = scan[i]
+        if (!s) continue
+        const prev = runs[runs.length - 1]
+        if (prev && !!prev.italic === !!s.italic && !!prev.bold === !!s.bold && !!prev.smallCaps === !!s.smallCaps) {
+            prev.text += md[i]
+        } else {
+            runs.push({ text: md[i], ...s })
+        }
+    }
+    return runs
+}
+
+export function markdownToPlainText(md: string): string {
+    return styledRuns(md).map(r => r.text).join('')
+}
+
+function escapeHtml(str: string): string {
+    return str.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+}
+
+/** HTML for the clipboard: one <p> per paragraph, <br> for single line breaks. */
+export function markdownToHtml(md: string): string {
+    const scan = scanInline(md)
+    const paragraphs: string[] = []
+    let offset = 0
+    for (const block of md.split(/(\n{2,})/)) {
+        if (/^\n+$/.test(block) || !block.trim()) { offset += block.length; continue }
+        const html = styledRuns(md, offset, offset + block.length, scan).map(run => {
+            let out = escapeHtml(run.text).replace(/\n/g, '<br>')
+            if (run.smallCaps) out = `<span style="font-variant: small-caps">${out}</span>`
+            if (run.italic) out = `<em>${out}</em>`
+            if (run.bold) out = `<strong>${out}</strong>`
+            return out
+        }).join('')
+        paragraphs.push(`<p>${html}</p>`)
+        offset += block.length
+    }
+    return paragraphs.join('\n')
+}
+
+// --- HTML input ---
+
+function decodeEntities(str: string): string {
+    return str
+        .replace(/&nbsp;/g, ' ')
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&#39;|&apos;/g, "'")
+        .replace(/&rsquo;/g, '’').replace(/&lsquo;/g, '‘')
+        .replace(/&rdquo;/g, '”').replace(/&ldquo;/g, '“')
+        .replace(/&mdash;/g, '—').replace(/&ndash;/g, '–')
+        .replace(/&#(\d+);/g, (_, n) => String.fromCodePoint(parseInt(n, 10)))
+        .replace(/&#x([0-9a-f]+);/gi, (_, n) => String.fromCodePoint(parseInt(n, 16)))
+        .replace(/&amp;/g, '&')
+}
+
+function escapeMarkdown(str: string): string {
+    return str.replace(/([\\*_[\]])/g, '\\$1')
+}
+
+const BLOCK_TAGS = new Set(['p', 'div', 'li', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'blockquote', 'tr', 'section', 'article'])
+const DROPPED_CONTENT = new Set(['script', 'style', 'head', 'title', 'template', 'noscript'])
+
+// Which inline styles an opening tag switches on; spans carry them in `style`/`class` (Word, Google Docs)
+function tagStyle(tag: string, attrs: string): InlineStyle {
+    const css = (attrs.match(/style\s*=\s*"([^"]*)"|style\s*=\s*'([^']*)'/i) || [])
+    const style = (css[1] || css[2] || '').toLowerCase()
+    const cls = ((attrs.match(/class\s*=\s*["']([^"']*)["']/i) || [])[1] || '').toLowerCase()
+    const weight = style.match(/font-weight\s*:\s*(\w+)/)
+    return {
+        italic: ['em', 'i', 'cite'].includes(tag) || /font-style\s*:\s*italic/.test(style),
+        bold: (['strong', 'b'].includes(tag) && !(weight && /normal|[1-5]00/.test(weight[1]))) || (!!weight && /bold|[6-9]00/.test(weight[1])),
+        smallCaps: /font-variant\s*:\s*small-caps/.test(style) || /small-?caps/.test(cls),
+    }
+}
+
+/**
+ * Sanitizes pasted or submitted HTML down to the inline Markdown subset: italics, bold and
+ * small caps survive, block elements become paragraphs, everything else is dropped.
+ */
+export function htmlToMarkdown(html: string): string {
+    const body = html.replace(/<!--[\s\S]*?-->/g, '')
+    const tokens = body.split(/(<\/?[a-zA-Z][^>]*>)/)
+    const open: { tag: string; style: InlineStyle }[] = []
+    let dropDepth = 0
+    let out = ''
+    let current: InlineStyle = {}
+    let pendingSpace = '' // held back so that markers hug the text: "*Title* by", not "*Title *by"
+
+    // Emits the markers needed to go from the current style to the one implied by the open tags
+    const sync = () => {
+        const target: InlineStyle = {}
+        for (const o of open) {
+            if (o.style.italic) target.italic = true
+            if (o.style.bold) target.bold = true
+            if (o.style.smallCaps) target.smallCaps = true
+        }
+        if (current.smallCaps && !target.smallCaps) out += SMALL_CAPS_CLOSE
+        if (current.italic && !target.italic) out += '*'
+        if (current.bold && !target.bold) out += '**'
+        out += pendingSpace
+        pendingSpace = ''
+        if (!current.bold && target.bold) out += '**'
+        if (!current.italic && target.italic) out += '*'
+        if (!current.smallCaps && target.smallCaps) out += '['
+        current = target
+    }
+
+    for (const token of tokens) {
+        const tagMatch = token.match(/^<(\/?)([a-zA-Z][a-zA-Z0-9]*)([^>]*)>$/)
+        if (!tagMatch) {
+            if (dropDepth > 0 || !token) continue
+            const text = decodeEntities(token).replace(/[ \t\r\n]+/g, ' ')
+            const core = text.trim()
+            if (text !== core && out && !out.endsWith('\n') && (pendingSpace || text.startsWith(' '))) pendingSpace = ' '
+            if (!core) continue
+            sync()
+            out += escapeMarkdown(core)
+            if (text.endsWith(' ')) pendingSpace = ' '
+            continue
+        }
+        const closing = tagMatch[1] === '/'
+        const tag = tagMatch[2].toLowerCase()
+        if (DROPPED_CONTENT.has(tag)) {
+            dropDepth += closing ? -1 : 1
+            dropDepth = Math.max(0, dropDepth)
+            continue
+        }
+        if (tag === 'br') {
+            // Markdown spans never cross a line: close them before the break, reopen them after it
+            const spans = open.splice(0)
+            pendingSpace = ''
+            sync()
+            out += '\n'
+            open.push(...spans)
+            continue
+        }
+        if (BLOCK_TAGS.has(tag)) {
+            if (closing) {
+                open.length = 0
+                pendingSpace = ''
+                sync()
+                if (out && !out.endsWith('\n\n')) out += out.endsWith('\n') ? '\n' : '\n\n'
+            }
+            continue
+        }
+        if (closing) {
+            const idx = open.map(o => o.tag).lastIndexOf(tag)
+            if (idx !== -1) open.splice(idx, 1)
+        } else if (!tagMatch[3].trim().endsWith('/')) {
+            open.push({ tag, style: tagStyle(tag, tagMatch[3]) })
+        }
+    }
+    open.length = 0
+    pendingSpace = ''
+    sync()
+    return out.trim()
+}
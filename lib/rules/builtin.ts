@@ -0,0 +1,120 @@
+import { CheapRule } from './types'
+import { NUMBER_RULES } from './numbers'
+import { QUOTE_RULES } from './quotes'
+
+const COMMON_TYPOS: Record<string, string> = {
+    definately: 'definitely',
+    seperately: 'separately',
+    occured: 'occurred',
+    recieve: 'receive',
+    teh: 'the',
+    accomodate: 'accommodate',
+    untill: 'until',
+    wierd: 'weird',
+    existance: 'existence',
+    independant: 'independent',
+    occurence: 'occurrence',
+    publically: 'publicly',
+}
+
+// Sentence adverbs and interjections that look like the first item of a series ("Yes, dogs and cats")
+const INTRODUCTORY_WORDS = new Set(['yes', 'no', 'well', 'oh', 'so', 'however', 'still', 'indeed', 'moreover', 'thus', 'also', 'first', 'then', 'now', 'again', 'besides', 'meanwhile', 'instead', 'otherwise', 'therefore', 'finally'])
+
+// Words that open an introductory clause or phrase ("When I arrived, John and Mary left"): a comma
+// after one ends the introduction, not the first item of a series
+const CLAUSE_OPENERS = new Set(['when', 'whenever', 'if', 'unless', 'after', 'before', 'since', 'while', 'although', 'though', 'because', 'as', 'once', 'until', 'in', 'on', 'at', 'by', 'for', 'during', 'with', 'without', 'from', 'to', 'of', 'under', 'over', 'through', 'despite', 'like', 'upon'])
+
+// "X, Y and Z": X is the first item of a series if a longer series precedes it ("W, X, Y and Z")
+// or the words leading up to it do not open an introduction
+function isSeries(match: RegExpExecArray, text: string): boolean {
+    const first = match[1]
+    if (INTRODUCTORY_WORDS.has(first.toLowerCase())) return false
+    const firstStart = match.index - first.length - 2
+    const clause = text.slice(0, firstStart).split(/[.!?;:\n]/).pop()!
+    if (/\w, $/.test(clause)) return true
+    if (/^\d+$/.test(first)) return false
+    // The words leading up to X since the last comma: "When I arrived, we ate apples, pears and plums" is a series
+    const opener = (clause.split(', ').pop()!.trim().match(/^["“‘(]*(\w+)/) || [])[1]
+    return !opener || !CLAUSE_OPENERS.has(opener.toLowerCase())
+}
+
+export function matchCase(original: string, fix: string): string {
+    return (original[0] && original[0] === original[0].toUpperCase()) ? fix.charAt(0).toUpperCase() + fix.slice(1) : fix
+}
+
+export const BUILTIN_RULES: CheapRule[] = [
+    {
+        id: 'punctuation.em-dash',
+        section: '6.85',
+        type: 'punctuation',
+        severity: 'recommended',
+        reason: 'Em-dash spacing adjustment.',
+        pattern: /\s?--\s?/g,
+        fix: () => '—',
+    },
+    {
+        id: 'spelling.common-typos',
+        section: '7.1',
+        type: 'spelling',
+        severity: 'required',
+        reason: 'Corrected a common misspelling.',
+        pattern: new RegExp(`\\b(${Object.keys(COMMON_TYPOS).join('|')})\\b`, 'gi'),
+        fix: (m) => matchCase(m[0], COMMON_TYPOS[m[0].toLowerCase()]),
+    },
+    ...QUOTE_RULES,
+    {
+        id: 'punctuation.eg-ie-comma',
+        section: '6.51',
+        type: 'punctuation',
+        severity: 'recommended',
+        reason: '"e.g." and "i.e." are followed by a comma.',
+        pattern: /\b(e\.g|i\.e)\.(?!,)(?=\s)/gi,
+        fix: (m) => `${m[1]}.,`,
+    },
+    {
+        id: 'punctuation.serial-comma',
+        section: '6.19',
+        type: 'punctuation',
+        severity: 'optional',
+        reason: 'If this is a series of three or more, Chicago recommends the serial (Oxford) comma before the final conjunction.',
+        // Matches only the penultimate item ("pears" -> "pears,"). Only a suggestion: "Yesterday, John
+        // and Mary left" and "Paris, Texas and Paris, France" read the same as a series
+        pattern: /(?<=\b(\w+), )(\w+)(?= (?:and|or) \w)/g,
+        test: isSeries,
+        fix: (m) => `${m[2]},`,
+        suggest: true,
+    },
+    ...NUMBER_RULES,
+    {
+        id: 'punctuation.ellipsis-spacing',
+        section: '13.50',
+        type: 'punctuation',
+        severity: 'recommended',
+        reason: 'Chicago spaces the three dots of an ellipsis.',
+        pattern: /(?<!\.)(?:\.\.\.|…)(?!\.)/g,
+        // Keep the ellipsis set off from adjacent words
+        fix: (m, text) => {
+            const before = text[m.index - 1]
+            const after = text[m.index + m[0].length]
+            return `${before && /\w/.test(before) ? ' ' : ''}. . .${after && /\w/.test(after) ? ' ' : ''}`
+        },
+    },
+    {
+        id: 'spacing.before-punctuation',
+        section: '6.7',
+        type: 'spacing',
+        severity: 'required',
+        reason: 'No space before a comma, period, colon, or semicolon.',
+        pattern: /(?<=\w) +([,;:]|\.(?! \.))(?=\s|$)/g,
+        fix: (m) => m[1],
+    },
+    {
+        id: 'spacing.single-space',
+        section: '6.7',
+        type: 'spacing',
+        severity: 'recommended',
+        reason: 'Use single spaces between sentences.',
+        pattern: / {2,}/g,
+        fix: () => ' ',
+    },
+]
@@ -0,0 +1,180 @@
+import { StyleProfile } from '@/lib/profiles'
+import { EditsResult, TextEdit, applyEdits } from './edits'
+import { abbreviateRange } from './numbers'
+
+// Deterministic cleanup of references that are already in the text (SPEC §3: citations only when present).
+// Recognizes numbered notes, bibliography/reference-list entries and author-date parentheticals.
+
+export type CitationSystem = 'notes-bibliography' | 'author-date'
+export type IbidPolicy = 'allow' | 'avoid'
+
+const NAME = `[\\p{Lu}][\\p{L}'’-]+`
+const YEAR = '\\d{4}[a-z]?'
+
+// "(New York: Penguin, 2019)": the publication facts that mark a full book note
+const PUB_FACTS = /\([^()]*?:[^()]*?,\s*\d{4}\)/
+const NOTE_LINE = /^([ \t]*)(\d{1,4})\.[ \t]+(.+)$/gm
+const BIB_LINE = new RegExp(`^(${NAME}, [^.\\n]+?(?: \\p{Lu}\\.)*)\\. ([^\\n]*\\b\\d{4}[a-z]?\\b[^\\n]*)$`, 'gmu')
+const PARENTHETICAL = new RegExp(
+    `\\((${NAME}(?:(?:,? (?:and|&) | et al\\.?|, )${NAME})*(?: et al\\.?)?),? (${YEAR})(?:[,:] ?(?:pp?\\. ?)?(\\d+(?:[-–]\\d+)?))?\\)`,
+    'gu'
+)
+
+function pageRange(pages: string): string {
+    const m = pages.match(/^(\d+)[-–](\d+)$/)
+    return m ? `${m[1]}–${abbreviateRange(Number(m[1]), Number(m[2]))}` : pages
+}
+
+// "Smith, *Title*" from a full or shortened note, for replacing ibid.
+function shortForm(note: string): string | null {
+    const title = note.match(/\*([^*]+)\*|“([^”]+)”/)
+    const author = note.slice(0, title ? title.index : 0).replace(/,\s*$/, '').trim()
+    if (!title || !author) return null
+    // Surname: the last word of the first author (before "and" or a comma)
+    const surname = author.split(/,| and /)[0].trim().split(/\s+/).pop()!
+    // A short title keeps at most four words and drops the subtitle (CMoS chap. 14)
+    const words = (title[1] || title[2]).split(':')[0].replace(/[,.]$/, '').split(/\s+/)
+    const short = words.slice(0, 4).join(' ')
+    return title[1] ? `${surname}, *${short}*` : `${surname}, “${short}${/[,.]$/.test(short) ? '' : ','}”`
+}
+
+function noteEdits(text: string, policy: IbidPolicy, edits: TextEdit[]) {
+    let previousShort: string | null = null
+    let m
+    NOTE_LINE.lastIndex = 0
+    while ((m = NOTE_LINE.exec(text)) !== null) {
+        const body = m[3]
+        const offset = m.index + m[1].length + m[2].length + (m[0].length - m[1].length - m[2].length - body.length)
+        const isIbid = /^\*?ibid\b/i.test(body)
+        const isCitation = isIbid || PUB_FACTS.test(body) || /^[\p{Lu}][^,]*, (?:\*[^*]+\*|“[^”]+”)/u.test(body)
+        if (!isCitation) continue
+
+        const at = (start: number, end: number, after: string, reason: string, severity: TextEdit['severity'] = 'recommended') =>
+            edits.push({ start: offset + start, end: offset + end, after, reason, severity })
+
+        if (isIbid) {
+            const ibid = body.match(/^\*?ibid\.?\*?(?:,\s*(?:pp?\.\s*)?(\d+(?:[-–]\d+)?))?\.?\s*$/i)
+            if (ibid) {
+                const locator = ibid[1] ? `, ${pageRange(ibid[1])}` : ''
+                if (policy === 'avoid' && previousShort) {
+                    at(0, body.length, `${previousShort}${locator}.`, 'Chicago discourages “ibid.”; use a shortened citation instead. (CMoS 14.34)', 'optional')
+                } else {
+                    at(0, body.length, locator ? `Ibid.${locator}.` : 'Ibid.', '“Ibid.” is set in roman, capitalized at the start of a note, and followed by the page number alone. (CMoS 14.34)')
+                }
+            }
+            continue
+        }
+
+        // Editor and translator in notes: lowercase abbreviations
+        const roleRegex = /\b(Edited by|edited by|Ed\.(?= [\p{Lu}])|Translated by|translated by|Trans\.(?= [\p{Lu}])|trans(?= [\p{Lu}])|eds(?=[ ,]))/gu
+        let r
+        while ((r = roleRegex.exec(body)) !== null) {
+            const word = r[0].toLowerCase()
+            const after = word.startsWith('ed') ? (word === 'eds' ? 'eds.' : 'ed.') : 'trans.'
+            at(r.index, r.index + r[0].length, after, 'In notes, “ed.” and “trans.” are abbreviated and lowercase. (CMoS 14.103)')
+        }
+
+        // Locator: no "p."/"pp." and inclusive page ranges with an en dash
+        const locator = body.match(/,\s*(pp?\.\s*)?(\d+(?:[-–]\d+)?)\.?$/)
+        if (locator) {
+            const start = locator.index! + locator[0].indexOf(locator[2]) - (locator[1] ? locator[1].length : 0)
+            const fixed = `${pageRange(locator[2])}.`
+            const original = body.slice(start)
+            if (original !== fixed) at(start, body.length, fixed, 'In notes, page numbers stand alone (no “p.” or “pp.”), with an en dash and abbreviated inclusive numbers. (CMoS chap. 14; 9.64)')
+        } else if (!/[.!?]$/.test(body)) {
+            at(body.length, body.length, '.', 'A note ends with a period. (CMoS chap. 14)')
+        }
+
+        // Italics markers: one convention throughout
+        const underscored = /(?<![\p{L}\p{N}])_([^_\n]+)_(?![\p{L}\p{N}])/gu
+        while ((r = underscored.exec(body)) !== null) {
+            at(r.index, r.index + r[0].length, `*${r[1]}*`, 'Italicize titles of books and journals with a single marker style.')
+        }
+
+        previousShort = shortForm(body.replace(/_([^_\n]+)_/g, '*$1*'))
+    }
+}
+
+function bibliographyEdits(text: string, system: CitationSystem, edits: TextEdit[]) {
+    let m
+    BIB_LINE.lastIndex = 0
+    while ((m = BIB_LINE.exec(text)) !== null) {
+        const [line, author, rest] = m
+        if (/^\d/.test(line)) continue
+        const restStart = m.index + author.length + 2
+
+        const local: TextEdit[] = []
+        const roleRegex = /(?<=\. )(ed\. by|edited by|Ed\. by|trans\. by|translated by|Trans\. by)\b/g
+        let r
+        while ((r = roleRegex.exec(rest)) !== null) {
+            const after = r[0].toLowerCase().startsWith('ed') ? 'Edited by' : 'Translated by'
+            local.push({ start: r.index, end: r.index + r[0].length, after, severity: 'recommended', reason: 'In a bibliography, “Edited by” and “Translated by” are spelled out and capitalized after a period. (CMoS 14.103)' })
+        }
+
+        const range = /(?<=[:,] )(\d+)-(\d+)(?=\.|,|$)/g
+        while ((r = range.exec(rest)) !== null) {
+            local.push({ start: r.index, end: r.index + r[0].length, after: pageRange(`${r[1]}-${r[2]}`), severity: 'recommended', reason: 'Page ranges take an en dash and abbreviated inclusive numbers. (CMoS 9.64)' })
+        }
+
+        // Year placement for books (Place: Publisher): after the publisher in a bibliography,
+        // right after the author in an author-date reference list (CMoS chap. 15).
+        // Moving the year rewrites the whole entry, so the smaller fixes are folded into that one edit.
+        const fixed = applyEdits(rest, local, 'citation_format', '').revisedText
+        const nbYear = fixed.match(new RegExp(`^(.*: [^:]+), (${YEAR})\\.$`))
+        const adYear = fixed.match(new RegExp(`^(${YEAR})\\. (.*: [^:]+)\\.$`))
+        let moved: { after: string; reason: string } | null = null
+        if (system === 'author-date' && nbYear) {
+            moved = { after: `${nbYear[2]}. ${nbYear[1]}.`, reason: 'In an author-date reference list, the year follows the author’s name. (CMoS chap. 15)' }
+        } else if (system === 'notes-bibliography' && adYear) {
+            moved = { after: `${adYear[2]}, ${adYear[1]}.`, reason: 'In a notes-bibliography entry, the year follows the publisher. (CMoS chap. 14)' }
+        }
+
+        if (moved) {
+            const reasons = [moved.reason, ...local.map(e => e.reason)].filter((x, i, all) => all.indexOf(x) === i)
+            edits.push({ start: restStart, end: restStart + rest.length, after: moved.after, severity: 'recommended', reason: reasons.join(' ') })
+        } else {
+            edits.push(...local.map(e => ({ ...e, start: restStart + e.start, end: restStart + e.end })))
+        }
+    }
+}
+
+// Surnames that head the bibliography or reference-list entries in the text
+function listedAuthors(text: string): Set<string> {
+    const surnames = new Set<string>()
+    let m
+    BIB_LINE.lastIndex = 0
+    while ((m = BIB_LINE.exec(text)) !== null) surnames.add(m[1].split(',')[0])
+    return surnames
+}
+
+// Only parentheticals that cite an author from the text's own reference list: "(Paris, 1889)" is a place and a date
+function parentheticalEdits(text: string, edits: TextEdit[]) {
+    const authors = listedAuthors(text)
+    if (authors.size === 0) return
+    let m
+    PARENTHETICAL.lastIndex = 0
+    while ((m = PARENTHETICAL.exec(text)) !== null) {
+        if (!authors.has(m[1].split(/[ ,]/)[0])) continue
+        const cited = m[1].replace(/ & /g, ' and ').replace(/ et al(?!\.)/g, ' et al.')
+        const after = `(${cited} ${m[2]}${m[3] ? `, ${pageRange(m[3])}` : ''})`
+        if (after !== m[0]) {
+            edits.push({ start: m.index, end: m.index + m[0].length, after, severity: 'recommended', reason: 'Author-date citations: no comma between author and year, “and” rather than “&,” and the page after a comma without “p.” (CMoS chap. 15)' })
+        }
+    }
+}
+
+/**
+ * Normalizes the citations already present in the text to the profile's Chicago system:
+ * notes (roles, locators, ibid.), bibliography or reference-list entries (roles, ranges,
+ * year placement) and author-date parentheticals citing an author from the text's reference
+ * list. Changes are located in the revised text.
+ */
+export function checkCitations(text: string, profile?: StyleProfile): EditsResult {
+    const system: CitationSystem = profile?.overrides?.citationSystem || 'notes-bibliography'
+    const ibid: IbidPolicy = profile?.overrides?.ibid || 'avoid'
+    const edits: TextEdit[] = []
+    noteEdits(text, ibid, edits)
+    bibliographyEdits(text, system, edits)
+    parentheticalEdits(text, edits)
+    return applyEdits(text, edits, 'citation_format', 'r')
+}
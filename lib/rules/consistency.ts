@@ -0,0 +1,179 @@
+import { Change } from '@/types'
+import { StyleProfile } from '@/lib/profiles'
+import { matchCase } from './builtin'
+import { EditsResult, TextEdit, applyEdits } from './edits'
+import { escapeRegExp } from './engine'
+
+// Spelling variants of one word; the first entry is the Merriam-Webster/Chicago preference
+const VARIANT_GROUPS: string[][] = [
+    ['toward', 'towards'],
+    ['afterward', 'afterwards'],
+    ['backward', 'backwards'],
+    ['among', 'amongst'],
+    ['amid', 'amidst'],
+    ['while', 'whilst'],
+    ['gray', 'grey'],
+    ['judgment', 'judgement'],
+    ['acknowledgment', 'acknowledgement'],
+    ['catalog', 'catalogue'],
+    ['color', 'colour'],
+    ['favor', 'favour'],
+    ['honor', 'honour'],
+    ['center', 'centre'],
+    ['theater', 'theatre'],
+    ['canceled', 'cancelled'],
+    ['traveled', 'travelled'],
+    ['modeling', 'modelling'],
+    ['percent', 'per cent'],
+    ['OK', 'okay'],
+]
+
+const ORDINAL = '(?:first|second|third|fourth|fifth|sixth|seventh|eighth|ninth|tenth|eleventh|twelfth|thirteenth|fourteenth|fifteenth|sixteenth|seventeenth|eighteenth|nineteenth|twentieth|twenty-first|\\d+(?:st|nd|rd|th))'
+// "the nineteenth-century" not followed by a noun it could modify: punctuation, the end, or a function word
+const CENTURY_NOUN = new RegExp(`\\b(${ORDINAL})-(century|centuries)(?=\\s*(?:[.,;:!?)\\]—–]|$)|\\s+(?:and|or|but|in|of|to|was|were|is|are|had|has|saw|when|where|that|which|as|by|for|with|the|a|an)\\b)`, 'gi')
+
+type Occurrence = { start: number; end: number; text: string }
+
+function findAll(text: string, form: string): Occurrence[] {
+    const regex = new RegExp(`(?<![\\p{L}\\p{N}-])${escapeRegExp(form).replace(/ /g, '\\s+')}(?![\\p{L}\\p{N}-])`, 'giu')
+    const found: Occurrence[] = []
+    let m
+    while ((m = regex.exec(text)) !== null) found.push({ start: m.index, end: m.index + m[0].length, text: m[0] })
+    return found
+}
+
+function isSentenceStart(text: string, index: number): boolean {
+    const preceding = text.slice(0, index).trimEnd()
+    return !preceding || /[.!?:…"“‘(\[—]$/.test(preceding) || /[.!?:…]["”’)\]*_]+$/.test(preceding) || /\n\s*$/.test(text.slice(0, index))
+}
+
+// Capitalized words next to another capitalized word ("Microsoft Word", "New York") are taken for names
+function inCapitalizedName(text: string, o: Occurrence): boolean {
+    if (o.text[0] === o.text[0].toLowerCase()) return false
+    const before = text.slice(0, o.start).match(/([\p{L}]+)[ \t]+$/u)
+    const after = text.slice(o.end).match(/^[ \t]+([\p{L}]+)/u)
+    const capitalized = (w: string) => /^\p{Lu}/u.test(w)
+    return Boolean((before && capitalized(before[1]) && !isSentenceStart(text, o.start - before[0].length)) || (after && capitalized(after[1])))
+}
+
+// Months and days are names whatever else they spell (May/may, March/march)
+const CALENDAR_WORDS = new Set(['january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'])
+
+function plural(n: number): string {
+    return n === 1 ? 'once' : n === 2 ? 'twice' : `${n} times`
+}
+
+/**
+ * Picks the form a family of variants should be normalized to: the style sheet's preferred
+ * spelling or a glossary term when the family has one, else the most frequent form. Ties go
+ * to `tieBreak` (or the form used first).
+ */
+function canonicalForm(counts: Map<string, number>, firstSeen: string[], profile?: StyleProfile, tieBreak?: (a: string, b: string) => number): string {
+    const forms = Array.from(counts.keys())
+    const preferred = Object.values(profile?.overrides?.spellings || {}).map(s => s.toLowerCase())
+    const fromSheet = forms.find(f => preferred.includes(f.toLowerCase()))
+        || forms.find(f => (profile?.glossary || []).includes(f))
+    if (fromSheet) return fromSheet
+    return forms.sort((a, b) =>
+        (counts.get(b)! - counts.get(a)!) || (tieBreak ? tieBreak(a, b) : 0) || firstSeen.indexOf(a) - firstSeen.indexOf(b)
+    )[0]
+}
+
+// Replaces every occurrence that is not the canonical form of its family. With `suggest`, the
+// occurrences are only reported: the forms may be different words (resign/re-sign, may/May).
+function normalizeFamily(occurrences: Occurrence[], keyOf: (o: Occurrence) => string, profile: StyleProfile | undefined, edits: TextEdit[], opts: { tieBreak?: (a: string, b: string) => number; severity: Change['severity']; fix: (o: Occurrence, canonical: string) => string; suggest?: string }) {
+    const counts = new Map<string, number>()
+    const firstSeen: string[] = []
+    for (const o of occurrences) {
+        const key = keyOf(o)
+        if (!counts.has(key)) firstSeen.push(key)
+        counts.set(key, (counts.get(key) || 0) + 1)
+    }
+    if (counts.size < 2) return
+
+    const canonical = canonicalForm(counts, firstSeen, profile, opts.tieBreak)
+    const others = Array.from(counts.entries()).filter(([form]) => form !== canonical)
+    const forms = `“${canonical}” (used ${plural(counts.get(canonical)!)}) rather than ${others.map(([form, n]) => `“${form}” (${plural(n)})`).join(', ')}`
+    const reason = opts.suggest ? `Check for consistency: ${forms}. ${opts.suggest}` : `Use one form consistently: ${forms}.`
+    for (const o of occurrences) {
+        if (keyOf(o) === canonical || (profile?.glossary || []).includes(o.text)) continue
+        const after = opts.fix(o, canonical)
+        if (after === o.text) continue
+        if (opts.suggest) edits.push({ start: o.start, end: o.end, after: o.text, reason, severity: 'optional', suggestion: true })
+        else edits.push({ start: o.start, end: o.end, after, reason, severity: opts.severity })
+    }
+}
+
+export type ConsistencyResult = EditsResult
+
+/**
+ * Finds words the text spells, hyphenates or capitalizes in more than one way. Known
+ * spelling variants ("toward"/"towards") are normalized, as are century compounds hyphenated
+ * as nouns. Hyphenated vs closed compounds ("e-mail"/"email") and capitalization outside
+ * sentence starts ("Internet"/"internet") are only reported, as suggestions that leave the
+ * text alone: both forms are often real words ("resign"/"re-sign", "may"/"May"), and which
+ * one is meant is the editor's call. Changes are located in the revised text.
+ */
+export function checkConsistency(text: string, profile?: StyleProfile): ConsistencyResult {
+    const edits: TextEdit[] = []
+
+    // 1. Hyphenated vs closed compounds, keyed by the lowercase form
+    const hyphenated = new Set((text.match(/[\p{L}]+(?:-[\p{L}]+)+/gu) || []).map(w => w.toLowerCase()))
+    for (const form of Array.from(hyphenated)) {
+        if (new RegExp(`^${ORDINAL}-centur`, 'i').test(form)) continue
+        const occurrences = [...findAll(text, form), ...findAll(text, form.replace(/-/g, ''))]
+        normalizeFamily(occurrences, o => o.text.toLowerCase(), profile, edits, {
+            severity: 'recommended',
+            // Merriam-Webster closes most established compounds (email, online): a tie goes to the closed form
+            tieBreak: (a, b) => a.split('-').length - b.split('-').length,
+            fix: (o, canonical) => matchCase(o.text, canonical),
+            suggest: 'Unify them only if they are the same word; some pairs differ in meaning (resign, re-sign). (CMoS 7.89)',
+        })
+    }
+
+    // 2. Spelling variants
+    for (const group of VARIANT_GROUPS) {
+        const occurrences = group.flatMap(form => findAll(text, form))
+        normalizeFamily(occurrences, o => group.find(f => f.toLowerCase() === o.text.toLowerCase().replace(/\s+/g, ' ')) || o.text, profile, edits, {
+            severity: 'recommended',
+            tieBreak: (a, b) => group.indexOf(a) - group.indexOf(b),
+            fix: (o, canonical) => matchCase(o.text, canonical),
+        })
+    }
+
+    // 3. Capitalization of the same word away from sentence starts
+    const byWord = new Map<string, Occurrence[]>()
+    const wordRegex = /[\p{L}][\p{L}'’]*/gu
+    let m
+    while ((m = wordRegex.exec(text)) !== null) {
+        if (isSentenceStart(text, m.index) || m[0].length < 2 || m[0] === m[0].toUpperCase()) continue
+        const key = m[0].toLowerCase()
+        if (CALENDAR_WORDS.has(key)) continue
+        if (!byWord.has(key)) byWord.set(key, [])
+        byWord.get(key)!.push({ start: m.index, end: m.index + m[0].length, text: m[0] })
+    }
+    for (const occurrences of Array.from(byWord.values())) {
+        if (occurrences.some(o => inCapitalizedName(text, o))) continue
+        normalizeFamily(occurrences, o => o.text, profile, edits, {
+            severity: 'optional',
+            // Chicago favors a down style (CMoS 8.1): a tie goes to lowercase
+            tieBreak: (a, b) => Number(a !== a.toLowerCase()) - Number(b !== b.toLowerCase()),
+            fix: (_, canonical) => canonical,
+            suggest: 'A capitalized form may be a proper noun. (CMoS 8.1)',
+        })
+    }
+
+    // 4. Century compounds are hyphenated only before a noun (CMoS 7.89)
+    CENTURY_NOUN.lastIndex = 0
+    while ((m = CENTURY_NOUN.exec(text)) !== null) {
+        edits.push({
+            start: m.index,
+            end: m.index + m[0].length,
+            after: `${m[1]} ${m[2]}`,
+            reason: 'Used as a noun, a century is not hyphenated (the nineteenth century); hyphenate it only before a noun (nineteenth-century novels). (CMoS 7.89)',
+            severity: 'recommended',
+        })
+    }
+
+    return applyEdits(text, edits, 'consistency', 'k')
+}
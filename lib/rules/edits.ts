@@ -0,0 +1,56 @@
+import { Change, ChangeType } from '@/types'
+
+// A replacement of text[start, end) found by a whole-text pass (consistency, citations)
+export type TextEdit = {
+    start: number
+    end: number
+    after: string
+    reason: string
+    severity: Change['severity']
+    type?: ChangeType
+    // Reported without editing the text: `after` is left equal to the matched text
+    suggestion?: boolean
+}
+
+export interface EditsResult {
+    revisedText: string
+    changes: Change[]
+}
+
+/**
+ * Applies non-overlapping edits, earliest first (an edit overlapping an earlier one is
+ * dropped), and returns changes located in the revised text via the running length delta.
+ * Suggestions become changes whose `before` and `after` are the same text.
+ */
+export function applyEdits(text: string, edits: TextEdit[], defaultType: ChangeType, idPrefix: string): EditsResult {
+    const sorted = [...edits].sort((a, b) => a.start - b.start)
+    const applied: TextEdit[] = []
+    for (const e of sorted) {
+        if (applied.length > 0 && e.start < applied[applied.length - 1].end) continue
+        if (!e.suggestion && text.slice(e.start, e.end) === e.after) continue
+        applied.push(e)
+    }
+
+    let revised = ''
+    let cursor = 0
+    const changes: Change[] = applied.map((e, i) => {
+        revised += text.slice(cursor, e.start)
+        const start = revised.length
+        revised += e.after
+        cursor = e.end
+        return {
+            change_id: `${idPrefix}${i + 1}`,
+            type: e.type || defaultType,
+            severity: e.severity,
+            reason: e.reason,
+            before: text.slice(e.start, e.end),
+            after: e.after,
+            context_before: text.slice(Math.max(0, e.start - 30), e.start),
+            context_after: text.slice(e.end, e.end + 30),
+            loc: { start, end: start + e.after.length }
+        }
+    })
+    revised += text.slice(cursor)
+
+    return { revisedText: revised, changes }
+}
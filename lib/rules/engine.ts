@@ -0,0 +1,137 @@
+import { Change } from '@/types'
+import { CheapRule } from './types'
+
+export interface CheapRulesResult {
+    revisedText: string
+    changes: Change[]
+}
+
+// Default context extractor
+function getDefaultContext(text: string, index: number) {
+    return {
+        before: text.substring(Math.max(0, index - 30), index),
+        after: text.substring(index, Math.min(text.length, index + 30))
+    }
+}
+
+// Maps a range through one edit that replaced [index, index + length) with `replacementLength` chars.
+// Ranges that overlap the edit grow to cover the replacement.
+function shiftRange(loc: { start: number; end: number }, index: number, length: number, replacementLength: number) {
+    const delta = replacementLength - length
+    const editEnd = index + length
+    if (loc.end <= index && !(loc.start === loc.end && loc.start === index)) return loc
+    if (loc.start >= editEnd) return { start: loc.start + delta, end: loc.end + delta }
+    return {
+        start: Math.min(loc.start, index),
+        end: loc.end > editEnd ? loc.end + delta : index + replacementLength
+    }
+}
+
+export function escapeRegExp(str: string): string {
+    return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+// Ranges of `text` covered by a protected term, matched case-sensitively as whole words
+export function protectedRanges(text: string, terms: string[]): { start: number; end: number }[] {
+    const ranges: { start: number; end: number }[] = []
+    for (const term of terms) {
+        if (!term) continue
+        const regex = new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(term)}(?![\\p{L}\\p{N}])`, 'gu')
+        let m
+        while ((m = regex.exec(text)) !== null) ranges.push({ start: m.index, end: m.index + m[0].length })
+    }
+    return ranges
+}
+
+/**
+ * Runs each rule over the text in order. Every rule sees the output of the rules before it.
+ * Matches that overlap a `protectedTerms` occurrence (a profile's glossary) are left alone.
+ * A `suggest` rule only reports its matches: the change keeps the text (before === after)
+ * and names the proposed fix in its reason.
+ *
+ * Each change gets an exact `loc` in the final text: a rule's own edits are located with
+ * the running length delta of its earlier matches, and the locations recorded by earlier
+ * rules are shifted through every later edit.
+ */
+export function applyCheapRules(text: string, rules: CheapRule[], protectedTerms: string[] = []): CheapRulesResult {
+    let revised = text
+    const changes: Change[] = []
+    let changeIdCounter = 1
+
+    for (const rule of rules) {
+        let match
+        rule.pattern.lastIndex = 0
+        const matches: { index: number; length: number; before: string; after: string; proposed: string; contextBefore: string; contextAfter: string; absorbed: Change[] }[] = []
+        const guarded = protectedRanges(revised, protectedTerms)
+
+        while ((match = rule.pattern.exec(revised)) !== null) {
+            if (match[0].length === 0) {
+                rule.pattern.lastIndex++
+                continue
+            }
+            if (rule.test && !rule.test(match, revised)) continue
+            const matchEnd = match.index + match[0].length
+            if (guarded.some(r => match!.index < r.end && matchEnd > r.start)) continue
+            const before = match[0]
+            const proposed = rule.fix(match, revised)
+            if (before !== proposed) {
+                const ctx = getDefaultContext(revised, match.index)
+                matches.push({
+                    index: match.index,
+                    length: before.length,
+                    before,
+                    after: rule.suggest ? before : proposed,
+                    proposed,
+                    contextBefore: ctx.before,
+                    contextAfter: ctx.after,
+                    absorbed: []
+                })
+            }
+        }
+
+        // Splice from the end so earlier indices stay valid, shifting what earlier rules recorded
+        for (let i = matches.length - 1; i >= 0; i--) {
+            const m = matches[i]
+            if (rule.suggest) continue
+            revised = revised.substring(0, m.index) + m.after + revised.substring(m.index + m.length)
+            for (let k = changes.length - 1; k >= 0; k--) {
+                const loc = changes[k].loc!
+                // This edit rewrites everything an earlier change produced ("March 5th" -> "March 5" -> "March 5, 2024"):
+                // fold that change into this one so each change's `after` stays exactly at its loc
+                if (loc.end > loc.start && loc.start >= m.index && loc.end <= m.index + m.length) {
+                    m.absorbed.push(changes[k])
+                    changes.splice(k, 1)
+                    continue
+                }
+                changes[k].loc = shiftRange(loc, m.index, m.length, m.after.length)
+            }
+        }
+
+        let delta = 0
+        for (const m of matches) {
+            const start = m.index + delta
+            delta += m.after.length - m.length
+            // Absorbed changes were recorded right to left; undo them in that order to recover the original text
+            let before = m.before
+            for (const a of m.absorbed) {
+                const rel = a.loc!.start - m.index
+                before = before.slice(0, rel) + a.before + before.slice(rel + a.loc!.end - a.loc!.start)
+            }
+            const suggestion = rule.suggest ? ` Suggested: “${m.proposed}”` : ''
+            const reason = (rule.section ? `${rule.reason} (CMoS ${rule.section})` : rule.reason) + suggestion
+            changes.push({
+                change_id: `c${changeIdCounter++}`,
+                type: rule.type,
+                severity: rule.severity,
+                reason: [...m.absorbed.map(a => a.reason).reverse(), reason].join(' '),
+                before,
+                after: m.after,
+                context_before: m.contextBefore,
+                context_after: m.contextAfter,
+                loc: { start, end: start + m.after.length }
+            })
+        }
+    }
+
+    return { revisedText: revised, changes }
+}
@@ -0,0 +1,15 @@
+import { CheapRule } from './types'
+
+// Rules that only make sense on rich text (inline Markdown, see lib/richtext.ts)
+export const FORMATTING_RULES: CheapRule[] = [
+    {
+        id: 'formatting.punctuation-style',
+        section: '6.2',
+        type: 'formatting',
+        severity: 'recommended',
+        reason: 'Punctuation following italic or bold text is set in the style of the surrounding text.',
+        // "*Ulysses,* he said" → "*Ulysses*, he said"; ? and ! may belong to the title (*Oklahoma!*)
+        pattern: /(?<=[\p{L}\p{N}])([,;:])(\*\*|\*|_)(?=\s|$)/gu,
+        fix: (m) => `${m[2]}${m[1]}`,
+    },
+]
@@ -0,0 +1,33 @@
+import fs from 'fs'
+import { BUILTIN_RULES } from './builtin'
+import { FORMATTING_RULES } from './formatting'
+import { applyCheapRules as runRules, CheapRulesResult } from './engine'
+import { StyleProfile } from '@/lib/profiles'
+import { rulesForProfile } from './profile'
+import { getRules, loadRuleConfig, registerRule } from './registry'
+import { RuleConfig } from './types'
+import defaultConfig from './rules.config.json'
+
+export type { CheapRule, RuleConfig, RuleDefinition } from './types'
+export type { CheapRulesResult } from './engine'
+export { registerRule, getRules, getRule, loadRuleConfig, ruleFromDefinition } from './registry'
+export { rulesForProfile } from './profile'
+export { checkConsistency } from './consistency'
+export type { ConsistencyResult } from './consistency'
+export { checkCitations } from './citations'
+export type { CitationSystem, IbidPolicy } from './citations'
+
+for (const rule of BUILTIN_RULES) registerRule(rule)
+loadRuleConfig(defaultConfig as RuleConfig)
+
+// Deployment-specific rules can live outside the repo
+if (process.env.CHEAP_RULES_CONFIG) {
+    loadRuleConfig(JSON.parse(fs.readFileSync(process.env.CHEAP_RULES_CONFIG, 'utf8')))
+}
+
+// `markdown` adds the rules for inline formatting; in plain text * and _ are literal characters
+export function applyCheapRules(text: string, profile?: StyleProfile, options: { markdown?: boolean } = {}): CheapRulesResult {
+    const rules = options.markdown ? [...getRules(), ...FORMATTING_RULES] : getRules()
+    if (!profile) return runRules(text, rules)
+    return runRules(text, rulesForProfile(rules, profile), profile.glossary)
+}
@@ -0,0 +1,219 @@
+import { CheapRule } from './types'
+
+// CMoS chapter 9: numbers, dates, percentages and inclusive ranges
+
+const ONES = ['zero', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine', 'ten',
+    'eleven', 'twelve', 'thirteen', 'fourteen', 'fifteen', 'sixteen', 'seventeen', 'eighteen', 'nineteen']
+const TENS = ['', '', 'twenty', 'thirty', 'forty', 'fifty', 'sixty', 'seventy', 'eighty', 'ninety']
+const ORDINAL_WORDS: Record<string, string> = {
+    one: 'first', two: 'second', three: 'third', five: 'fifth', eight: 'eighth', nine: 'ninth', twelve: 'twelfth'
+}
+
+const MONTHS = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December']
+const MONTH = `(${MONTHS.join('|')})`
+
+// Words after which a numeral is a label or a reference, never spelled out (p. 5, chapter 3, No. 4, study 2)
+const REFERENCE_WORDS = /(?:(?:^|[\s(])(?:(?:page|pages|chapter|chapters|section|sections|number|volume|volumes|figure|figures|table|tables|part|parts|line|lines|version|room|route|act|scene|verse|article|item|step|level|grade|size|model|type|class|psalm|psalms|book|books|appendix|plate|box|map|study|studies|experiment|experiments|trial|phase|stage|group|wave|session|day|week|unit|lesson|exercise|problem|question|case|patient|participant|sample|episode|season|game|round|hole) |(?:p|pp|chap|sec|no|nos|vol|vols|fig|figs|ll|v|n|nn|art|op)\. ?)|[$€£#§] ?)$/i
+// Capitalized words that can precede a count ("Only 3 came", "About 5 left"); any other capitalized
+// word names the thing the numeral labels: Psalm 23, Windows 10, Apollo 11
+const COUNT_OPENERS = new Set(['the', 'a', 'an', 'and', 'but', 'or', 'in', 'on', 'at', 'for', 'of', 'to', 'from', 'by', 'with', 'after', 'before', 'about', 'over', 'under', 'only', 'just', 'nearly', 'almost', 'exactly', 'around', 'roughly', 'some', 'all', 'these', 'those', 'its', 'their', 'our', 'my', 'his', 'her', 'your', 'we', 'they', 'i', 'he', 'she', 'it', 'you', 'then', 'when', 'if', 'another', 'every', 'each'])
+
+// Units and abbreviations that keep numerals (9.16, 9.38)
+const UNIT_AFTER = /^ ?(?:%|percent|per cent|°|km|kg|mg|g|m|cm|mm|mi|mph|km\/h|ft|in\.|lb|lbs|oz|ml|l|kb|mb|gb|tb|hz|khz|mhz|ghz|v|w|kw|a\.m\.|p\.m\.|am|pm|bce|ce|bc|ad|b\.c\.e?\.|c\.e\.|a\.d\.|x|×)(?![\p{L}])/iu
+
+export function numberToWords(n: number): string {
+    if (n < 20) return ONES[n]
+    if (n < 100) return TENS[Math.floor(n / 10)] + (n % 10 ? `-${ONES[n % 10]}` : '')
+    if (n === 100) return 'one hundred'
+    return String(n)
+}
+
+function ordinalToWords(n: number): string {
+    const words = numberToWords(n)
+    // Only the last element takes the ordinal form: twenty-first, ninety-ninth
+    const parts = words.split(/([ -])/)
+    const last = parts[parts.length - 1]
+    parts[parts.length - 1] = ORDINAL_WORDS[last] || (last.endsWith('y') ? last.slice(0, -1) + 'ieth' : last + 'th')
+    return parts.join('')
+}
+
+// The sentence around `index`, for the "numbers in the same sentence" check (9.7)
+function sentenceAround(text: string, index: number): string {
+    const start = Math.max(text.lastIndexOf('. ', index), text.lastIndexOf('\n', index), -1) + 1
+    const endMatch = text.slice(index).search(/[.!?](?:\s|$)/)
+    return text.slice(start, endMatch === -1 ? text.length : index + endMatch)
+}
+
+// A numeral that stands for a quantity in running text (not a label, unit, date, or part of a larger figure)
+function isCountInProse(m: RegExpExecArray, text: string, limit: number): boolean {
+    const before = text.slice(Math.max(0, m.index - 12), m.index)
+    const after = text.slice(m.index + m[0].length, m.index + m[0].length + 8)
+    if (REFERENCE_WORDS.test(before)) return false
+    const name = (before.match(/(?:^|[^\p{L}])(\p{Lu}\p{L}*) $/u) || [])[1]
+    if (name && !COUNT_OPENERS.has(name.toLowerCase())) return false
+    // List and note markers ("1. ", "2) ") and journal volumes ("Journal 12 (2004)")
+    if (/(?:^|\n)[ \t]*$/.test(before) && /^[.)]/.test(after)) return false
+    if (/^ \(\d{4}/.test(after)) return false
+    if (new RegExp(`${MONTH}\\s*$`).test(before) || new RegExp(`^\\s*${MONTH}`).test(after)) return false
+    if (UNIT_AFTER.test(after)) return false
+    // 9.7: when a sentence mixes small and large numbers of one category, numerals are used for all.
+    // Years (bare four-digit numbers) and dates are a different category.
+    const others = sentenceAround(text, m.index)
+        .replace(new RegExp(`${MONTH} \\d{1,2}`, 'g'), '')
+        .match(/\d[\d,]*(?:\.\d+)?/g) || []
+    return !others.some(o => !/^\d{4}$/.test(o) && Number(o.replace(/,/g, '')) > limit)
+}
+
+// Round multiples of hundreds, thousands and millions: 200, 8,000, 300,000, 5,000,000 (9.4, 9.8)
+function roundNumberToWords(value: number): string | null {
+    if (value >= 100 && value < 1000 && value % 100 === 0) return `${numberToWords(value / 100)} hundred`
+    if (value >= 1000 && value < 100000 && value % 1000 === 0) return `${numberToWords(value / 1000)} thousand`
+    if (value >= 100000 && value < 1000000 && value % 100000 === 0) return `${numberToWords(value / 100000)} hundred thousand`
+    if (value >= 1000000 && value % 1000000 === 0 && value / 1000000 <= 100) return `${numberToWords(value / 1000000)} million`
+    return null
+}
+
+// Inclusive numbers (9.64): the second number keeps only the digits that change, with at least two
+// when the first number's tens digit is not zero; below 100 and at multiples of 100 all digits stay
+export function abbreviateRange(first: number, second: number): string {
+    const full = String(second)
+    if (first < 100 || first % 100 === 0 || second <= first) return full
+    const a = String(first)
+    if (a.length !== full.length) return full
+    let i = 0
+    while (i < a.length && a[i] === full[i]) i++
+    const minDigits = a[a.length - 2] === '0' ? 1 : 2
+    return full.slice(Math.min(i, full.length - minDigits))
+}
+
+/**
+ * Spelling out cardinal and ordinal numbers: CMoS spells out zero through one hundred (9.2);
+ * houses on the alternative rule use zero through nine (9.3).
+ */
+export function spellOutRules(limit: number): CheapRule[] {
+    const section = limit < 100 ? '9.3' : '9.2'
+    const rangeWords = `zero through ${numberToWords(Math.min(limit, 100))}`
+    return [
+        {
+            id: 'numbers.spell-out',
+            section,
+            type: 'numbers',
+            severity: 'recommended',
+            reason: `In running text, spell out whole numbers from ${rangeWords}.`,
+            pattern: /(?<![\p{L}\p{N}$€£#§'’\-–—.,:/]|\d[.,:/])(\d{1,3})(?![\p{L}\p{N}\-–]|[.,:/]\d)/gu,
+            test: (m, text) => Number(m[1]) <= limit && isCountInProse(m, text, limit),
+            fix: (m) => numberToWords(Number(m[1])),
+        },
+        {
+            id: 'numbers.spell-out-ordinal',
+            section: '9.6',
+            type: 'numbers',
+            severity: 'recommended',
+            reason: `Ordinal numbers follow the same rule as cardinals: spell out ${rangeWords} (first, twenty-first).`,
+            pattern: /(?<![\p{L}\p{N}$€£#§\-–.,])(\d{1,3})(?:st|nd|rd|th)(?![\p{L}\p{N}])/gu,
+            test: (m, text) => Number(m[1]) <= limit && !new RegExp(`${MONTH}\\s*$`).test(text.slice(Math.max(0, m.index - 12), m.index)),
+            fix: (m) => ordinalToWords(Number(m[1])),
+        },
+    ]
+}
+
+// Words that introduce a range of pages, lines, chapters and the like ("pp. 12-18", "chapters 3-5")
+const RANGE_CUE = /(?:\b(?:pp?|ll|vv?|chaps?|vols?|nos?|secs?)\.|\b(?:pages?|lines?|chapters?|verses?|sections?|volumes?|numbers?|years?)|§)\s*$/i
+// An earlier range of the same list ("pp. 12-18, 21-25")
+const LIST_OF_RANGES = /\d[–-]\d+(?:,| and| or|, and)\s*$/
+
+// Words that introduce a number or code with a hyphen in it ("part 12-34", "form 2020-1234")
+const IDENTIFIER_CUE = /\b(?:parts?|forms?|models?|items?|serial|codes?|refs?|accounts?|orders?|invoices?|tickets?|flights?|rooms?|routes?|call|dial|phone|tel|fax|isbn|issn|id|no|nos|numbers?)\.?:?\s*$/i
+
+// Only hyphenated numbers that read as a range: after a cue word, two years in order
+// (1990-95, 1990-1995), or two small numbers in order after a noun ("ages 8-12").
+// Phone numbers, part numbers and codes keep their hyphen.
+function isRange(m: RegExpExecArray, text: string): boolean {
+    const preceding = text.slice(Math.max(0, m.index - 40), m.index)
+    if (RANGE_CUE.test(preceding) || LIST_OF_RANGES.test(preceding)) return true
+    const [from, to] = [Number(m[1]), Number(m[2])]
+    if (m[1].length <= 3 && m[2].length <= 3 && from < to && /\p{L} $/u.test(preceding) && !IDENTIFIER_CUE.test(preceding)) return true
+    if (m[1].length !== 4 || from < 1000 || from > 2100) return false
+    return (m[2].length === 2 && to > from % 100) || (m[2].length === 4 && to > from && to - from <= 200)
+}
+
+export const NUMBER_RULES: CheapRule[] = [
+    ...spellOutRules(100),
+    {
+        id: 'numbers.round',
+        section: '9.4',
+        type: 'numbers',
+        severity: 'recommended',
+        reason: 'Spell out round numbers: hundreds, thousands, hundred thousands, and millions.',
+        // Bare four-digit numbers are left alone: they are usually years
+        pattern: /(?<![\p{L}\p{N}$€£#§'’\-–—.,:/])(\d{3}|\d{1,3}(?:,\d{3})+)(?![\p{L}\p{N}\-–]|[.,:/]\d)/gu,
+        test: (m, text) => roundNumberToWords(Number(m[1].replace(/,/g, ''))) !== null && isCountInProse(m, text, Infinity),
+        fix: (m) => roundNumberToWords(Number(m[1].replace(/,/g, '')))!,
+    },
+    {
+        id: 'numbers.decades',
+        section: '9.34',
+        type: 'numbers',
+        severity: 'required',
+        reason: 'Decades take no apostrophe before the s (the 1990s, the ’90s).',
+        pattern: /(?<![\p{L}\p{N}])(['’]?)(\d{1,3}0)['’]s(?![\p{L}])/gu,
+        fix: (m) => `${m[1] ? '’' : ''}${m[2]}s`,
+    },
+    {
+        id: 'numbers.date-ordinal',
+        section: '9.32',
+        type: 'numbers',
+        severity: 'required',
+        reason: 'Dates take cardinal numbers, not ordinals (March 5, not March 5th).',
+        pattern: new RegExp(`\\b${MONTH} (\\d{1,2})(?:st|nd|rd|th)\\b`, 'g'),
+        fix: (m) => `${m[1]} ${m[2]}`,
+    },
+    {
+        id: 'numbers.date-format',
+        section: '9.31',
+        type: 'numbers',
+        severity: 'recommended',
+        reason: 'Write full dates month-day-year, with a comma after the day (March 5, 2024).',
+        pattern: new RegExp(`\\b(\\d{1,2}) ${MONTH},? (\\d{4})\\b|\\b${MONTH} (\\d{1,2}) (\\d{4})\\b`, 'g'),
+        fix: (m) => m[1] ? `${m[2]} ${m[1]}, ${m[3]}` : `${m[4]} ${m[5]}, ${m[6]}`,
+    },
+    {
+        id: 'numbers.date-comma',
+        section: '6.38',
+        type: 'punctuation',
+        severity: 'recommended',
+        reason: 'A full date in running text is followed by a comma after the year.',
+        // Matches the space after the year, so the date change itself keeps its exact loc
+        pattern: new RegExp(`(?<=\\b${MONTH} \\d{1,2}, \\d{4}) (?=[\\p{L}])`, 'gu'),
+        fix: () => ', ',
+    },
+    {
+        id: 'punctuation.en-dash-range',
+        section: '6.78',
+        type: 'punctuation',
+        severity: 'recommended',
+        reason: 'Use an en dash, not a hyphen, between numbers in a range.',
+        // Digits joined by . , or / on either side belong to a larger figure (1,000-2,000, 2.5-3)
+        pattern: /(?<![\d\-–]|\d[.,/])(\d{1,4}) ?- ?(\d{1,4})(?![\d\-–]|[.,/]\d)/g,
+        test: isRange,
+        fix: (m) => `${m[1]}–${m[2]}`,
+    },
+    {
+        id: 'numbers.inclusive-pages',
+        section: '9.64',
+        type: 'numbers',
+        severity: 'optional',
+        reason: 'Abbreviate the second number of an inclusive page range (pp. 321–28, 101–8).',
+        pattern: /(?<=\b(?:pp?\.|pages?|ll\.|lines) ?)(\d+)–(\d+)(?![\d\-–])/gi,
+        fix: (m) => `${m[1]}–${abbreviateRange(Number(m[1]), Number(m[2]))}`,
+    },
+    {
+        id: 'numbers.percent',
+        section: '9.18',
+        type: 'numbers',
+        severity: 'recommended',
+        reason: 'In nontechnical text, spell out "percent" after a numeral.',
+        pattern: /\b(\d+(?:[.,]\d+)*) ?%/g,
+        fix: (m) => `${m[1]} percent`,
+    },
+]
@@ -0,0 +1,34 @@
+import { StyleProfile } from '@/lib/profiles'
+import { matchCase } from './builtin'
+import { escapeRegExp } from './engine'
+import { spellOutRules } from './numbers'
+import { CheapRule } from './types'
+
+// One rule per house spelling preference, e.g. "e-mail" → "email"
+function spellingRule(variant: string, preferred: string): CheapRule {
+    return {
+        id: `house.spelling.${variant.toLowerCase()}`,
+        section: '',
+        type: 'consistency',
+        severity: 'required',
+        reason: `House style prefers the spelling “${preferred}.”`,
+        pattern: new RegExp(`(?<![\\p{L}\\p{N}-])${escapeRegExp(variant)}(?![\\p{L}\\p{N}-])`, 'giu'),
+        fix: (m) => matchCase(m[0], preferred),
+    }
+}
+
+/** The registered rules as adjusted by a profile's house overrides. */
+export function rulesForProfile(rules: CheapRule[], profile: StyleProfile): CheapRule[] {
+    const overrides = profile.overrides || {}
+    const disabled = new Set(overrides.disabledRules || [])
+    if (overrides.serialComma === false) disabled.add('punctuation.serial-comma')
+
+    // A house spelling-out threshold replaces the CMoS zero-through-one-hundred rules
+    const spellOut = overrides.spellOutNumbersThrough === undefined ? [] : spellOutRules(overrides.spellOutNumbersThrough)
+    const replaced = rules.map(r => spellOut.find(s => s.id === r.id) || r)
+
+    return [
+        ...replaced.filter(r => !disabled.has(r.id)),
+        ...Object.entries(overrides.spellings || {}).map(([variant, preferred]) => spellingRule(variant, preferred)),
+    ]
+}
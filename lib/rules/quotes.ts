@@ -0,0 +1,80 @@
+import { CheapRule } from './types'
+
+// Leading elisions take an apostrophe, not an opening single quote ('tis, 'em, 'n', '90s)
+const ELISIONS = ['tis', 'twas', 'twere', 'twill', 'em', 'n', 'til', 'cause', 'round', 'bout', 'nother', 'neath', 'gainst']
+const ELISION_REGEX = new RegExp(`^(?:${ELISIONS.join('|')})(?![a-z])`, 'i')
+
+// Characters after which a quotation mark opens rather than closes
+const OPENING_CONTEXT = /[\s(\[{—–\-“‘"/]/
+
+// Emphasis markers of rich-text input (*"Title"*) don't decide the side of a quotation mark
+function previousChar(text: string, index: number): string | undefined {
+    let i = index - 1
+    while (i >= 0 && (text[i] === '*' || text[i] === '_')) i--
+    return i >= 0 ? text[i] : undefined
+}
+
+function isOpening(text: string, index: number): boolean {
+    const prev = previousChar(text, index)
+    const next = text[index + 1]
+    if (next === undefined || /\s/.test(next)) return false
+    return prev === undefined || OPENING_CONTEXT.test(prev)
+}
+
+function doubleQuoteFor(text: string, index: number): string {
+    return isOpening(text, index) ? '“' : '”'
+}
+
+function singleQuoteFor(text: string, index: number): string {
+    const prev = index > 0 ? text[index - 1] : undefined
+    const rest = text.slice(index + 1)
+
+    // Contractions and possessives: don't, O'Brien, the 1990s' excess
+    if (prev && /[\p{L}\p{N}]/u.test(prev)) return '’'
+    if (isOpening(text, index)) {
+        if (/^\d/.test(rest) || ELISION_REGEX.test(rest)) return '’'
+        return '‘'
+    }
+    return '’'
+}
+
+// A ’ closes a quotation when an earlier ‘ has not been closed yet; otherwise it is an apostrophe
+function closesSingleQuote(text: string, index: number): boolean {
+    const open = text.lastIndexOf('‘', index)
+    if (open === -1) return false
+    const between = text.slice(open + 1, index)
+    // Any ’ not flanked by letters on both sides already closed the quotation
+    return !/’(?![\p{L}])/u.test(between)
+}
+
+export const QUOTE_RULES: CheapRule[] = [
+    {
+        id: 'punctuation.smart-double-quotes',
+        section: '6.9',
+        type: 'punctuation',
+        severity: 'recommended',
+        reason: 'Use curly (smart) double quotation marks facing the quoted matter.',
+        pattern: /["“”]/g,
+        fix: (m, text) => doubleQuoteFor(text, m.index),
+    },
+    {
+        id: 'punctuation.smart-single-quotes',
+        section: '6.115',
+        type: 'punctuation',
+        severity: 'recommended',
+        reason: 'Use curly single quotation marks and apostrophes (’ for contractions, possessives, and elisions).',
+        pattern: /['‘]/g,
+        fix: (m, text) => singleQuoteFor(text, m.index),
+    },
+    {
+        id: 'punctuation.quote-punctuation-placement',
+        section: '6.9',
+        type: 'punctuation',
+        severity: 'required',
+        reason: 'In American usage, periods and commas go inside closing quotation marks.',
+        pattern: /([”’]+)([.,])/g,
+        // Only move punctuation past a ’ that really closes a nested quotation
+        test: (m, text) => !m[1].startsWith('’') || closesSingleQuote(text, m.index),
+        fix: (m) => `${m[2]}${m[1]}`,
+    },
+]
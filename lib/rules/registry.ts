@@ -0,0 +1,42 @@
+import { CheapRule, RuleConfig, RuleDefinition } from './types'
+
+// Registration order is application order
+const rules = new Map<string, CheapRule>()
+const disabled = new Set<string>()
+
+export function registerRule(rule: CheapRule) {
+    if (!rule.pattern.global) throw new Error(`Rule ${rule.id}: pattern must have the global flag`)
+    rules.set(rule.id, rule)
+}
+
+export function getRules(): CheapRule[] {
+    return Array.from(rules.values()).filter(r => !disabled.has(r.id))
+}
+
+export function getRule(id: string): CheapRule | undefined {
+    return rules.get(id)
+}
+
+export function ruleFromDefinition(def: RuleDefinition): CheapRule {
+    const flags = def.flags ?? 'g'
+    const unless = def.unless ? new RegExp(def.unless) : null
+    return {
+        id: def.id,
+        section: def.section,
+        type: def.type,
+        severity: def.severity || 'recommended',
+        reason: def.reason,
+        pattern: new RegExp(def.pattern, flags.includes('g') ? flags : flags + 'g'),
+        test: unless ? (m) => !unless.test(m[0]) : undefined,
+        fix: (m) => def.replacement.replace(/\$(\d+|&)/g, (_, g) => g === '&' ? m[0] : (m[Number(g)] ?? '')),
+    }
+}
+
+/**
+ * Applies a config file: registers its declarative rules (replacing built-ins with the
+ * same id) and disables the listed rule ids.
+ */
+export function loadRuleConfig(config: RuleConfig) {
+    for (const def of config.rules || []) registerRule(ruleFromDefinition(def))
+    for (const id of config.disabled || []) disabled.add(id)
+}
@@ -0,0 +1,40 @@
+import { ChangeType, Severity } from '@/types'
+
+/**
+ * A deterministic ("cheap") rule applied before every LLM pass.
+ *
+ * `pattern` must be global. For each match, `test` decides whether the rule applies
+ * (defaults to always) and `fix` returns the replacement for the matched text.
+ * A `suggest` rule leaves the text alone and reports `fix` as a suggestion, for edits
+ * that are right only in some readings of the sentence.
+ */
+export interface CheapRule {
+    id: string
+    section: string // CMoS reference, e.g. '6.85'; empty for house-style rules
+    type: ChangeType
+    severity: Severity
+    reason: string
+    pattern: RegExp
+    test?: (match: RegExpExecArray, text: string) => boolean
+    fix: (match: RegExpExecArray, text: string) => string
+    suggest?: boolean
+}
+
+// JSON form of a rule: `replacement` follows String.prototype.replace syntax ($1, $&, ...)
+// and `unless` is an optional regex that vetoes a match when it matches the matched text.
+export interface RuleDefinition {
+    id: string
+    section: string
+    type: ChangeType
+    severity?: Severity
+    reason: string
+    pattern: string
+    flags?: string
+    replacement: string
+    unless?: string
+}
+
+export interface RuleConfig {
+    disabled?: string[]
+    rules?: RuleDefinition[]
+}
@@ -2,10 +2,12 @@
 
 import React, { createContext, useContext, useState, useEffect, useCallback, useRef } from 'react'
 import { Session, HistoryItem, RewriteResponse } from '@/types'
+import { ChangeDecisions } from '@/lib/change-review'
 
 interface SessionContextType {
     session: Session | null
-    pushHistory: (input: string, output: RewriteResponse, provider?: string) => void
+    pushHistory: (input: string, output: RewriteResponse, provider?: string) => string
+    updateHistory: (id: string, output: RewriteResponse, decisions?: ChangeDecisions) => void
     clearSession: () => void
     touch: () => void
     isLoading: boolean
@@ -77,10 +79,11 @@ export function SessionProvider({ children }: { children: React.ReactNode }) {
     }, [])
 
     const pushHistory = useCallback((input: string, output: RewriteResponse, provider?: string) => {
+        const id = crypto.randomUUID()
         setSession(prev => {
             if (!prev) return prev
             const newItem: HistoryItem = {
-                id: crypto.randomUUID(),
+                id,
                 createdAt: Date.now(),
                 input,
                 output,
@@ -94,6 +97,21 @@ export function SessionProvider({ children }: { children: React.ReactNode }) {
             persist(next)
             return next
         })
+        return id
+    }, [])
+
+    // Replaces the stored output of a history item and the decisions taken on its changes
+    const updateHistory = useCallback((id: string, output: RewriteResponse, decisions: ChangeDecisions = {}) => {
+        setSession(prev => {
+            if (!prev) return prev
+            const next = {
+                ...prev,
+                lastActiveAt: Date.now(),
+                history: prev.history.map(item => item.id === id ? { ...item, output, decisions } : item)
+            }
+            persist(next)
+            return next
+        })
     }, [])
 
     const clearSession = useCallback(() => {
@@ -104,7 +122,7 @@ export function SessionProvider({ children }: { children: React.ReactNode }) {
     }, [])
 
     return (
-        <SessionContext.Provider value={{ session, pushHistory, clearSession, touch, isLoading }}>
+        <SessionContext.Provider value={{ session, pushHistory, updateHistory, clearSession, touch, isLoading }}>
             {children}
         </SessionContext.Provider>
     )
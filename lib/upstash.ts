@@ -0,0 +1,29 @@
+// Minimal Upstash Redis REST client shared by the rate limiter and the rewrite cache
+
+export function hasUpstash(): boolean {
+    return !!process.env.UPSTASH_REDIS_REST_URL && !!process.env.UPSTASH_REDIS_REST_TOKEN
+}
+
+// Runs one Redis command; resolves to null when Upstash is not configured or the call fails
+export async function fetchUpstash(command: string[]) {
+    const url = process.env.UPSTASH_REDIS_REST_URL
+    const token = process.env.UPSTASH_REDIS_REST_TOKEN
+
+    if (!url || !token) return null
+
+    try {
+        const response = await fetch(`${url}`, {
+            method: 'POST',
+            headers: {
+                Authorization: `Bearer ${token}`,
+                'Content-Type': 'application/json',
+            },
+            body: JSON.stringify(command),
+        })
+        const data = await response.json()
+        return data.result
+    } catch (error) {
+        console.error('Upstash Redis error:', error)
+        return null
+    }
+}
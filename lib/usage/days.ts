@@ -0,0 +1,14 @@
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// UTC dates (YYYY-MM-DD) covering [fromMs, toMs); stores partition records by these
+export function utcDays(fromMs: number, toMs: number): string[] {
+    const days: string[] = []
+    for (let t = Math.floor(fromMs / DAY_MS) * DAY_MS; t < toMs; t += DAY_MS) {
+        days.push(new Date(t).toISOString().slice(0, 10))
+    }
+    return days
+}
+
+export function utcDay(timestamp: number): string {
+    return new Date(timestamp).toISOString().slice(0, 10)
+}
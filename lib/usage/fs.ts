@@ -0,0 +1,32 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+import { utcDay, utcDays } from './days'
+import { UsageRecord, UsageStore } from './types'
+
+/** One JSON-lines file per UTC day in `dir`. */
+export function createFsUsageStore(dir: string): UsageStore {
+    const fileFor = (day: string) => path.join(dir, `usage-${day}.jsonl`)
+    let ready: Promise<unknown> | null = null
+
+    return {
+        id: 'fs',
+        async record(record: UsageRecord) {
+            await (ready ??= fs.mkdir(dir, { recursive: true }))
+            await fs.appendFile(fileFor(utcDay(record.timestamp)), JSON.stringify(record) + '\n')
+        },
+        async list(fromMs: number, toMs: number) {
+            const records: UsageRecord[] = []
+            for (const day of utcDays(fromMs, toMs)) {
+                const content = await fs.readFile(fileFor(day), 'utf8').catch(() => '')
+                for (const line of content.split('\n')) {
+                    if (!line.trim()) continue
+                    try {
+                        const record: UsageRecord = JSON.parse(line)
+                        if (record.timestamp >= fromMs && record.timestamp < toMs) records.push(record)
+                    } catch { } // a torn last line from a crash
+                }
+            }
+            return records
+        },
+    }
+}
@@ -0,0 +1,57 @@
+import os from 'os'
+import path from 'path'
+import { hasUpstash } from '@/lib/upstash'
+import { createFsUsageStore } from './fs'
+import { createMemoryUsageStore } from './memory'
+import { estimateCost } from './pricing'
+import { createUpstashUsageStore } from './upstash'
+import { MeteredCall, UsageRecord, UsageStore, UsageStoreId } from './types'
+
+export type { MeteredCall, UsageRecord, UsageStore, UsageStoreId } from './types'
+export type { UsageReport } from './report'
+export { summarizeUsage } from './report'
+export { estimateCost } from './pricing'
+
+// USAGE_STORE picks the store; by default Upstash when it is configured, memory otherwise
+function createUsageStore(): UsageStore {
+    const retentionDays = Number(process.env.USAGE_RETENTION_DAYS) || 90
+    const id = (process.env.USAGE_STORE || (hasUpstash() ? 'upstash' : 'memory')) as UsageStoreId
+    switch (id) {
+        case 'upstash':
+            return createUpstashUsageStore(retentionDays)
+        case 'fs':
+            return createFsUsageStore(process.env.USAGE_DIR || path.join(os.tmpdir(), 'cmos-usage'))
+        case 'memory':
+            return createMemoryUsageStore(Number(process.env.USAGE_MAX_RECORDS) || 50000)
+        default:
+            throw new Error(`Unknown USAGE_STORE: ${id}`)
+    }
+}
+
+let store: UsageStore | null = null
+
+export function getUsageStore(): UsageStore {
+    return store ??= createUsageStore()
+}
+
+export type RewriteUsage = Omit<UsageRecord, 'calls' | 'inputTokens' | 'outputTokens' | 'costUsd'> & {
+    calls: Omit<MeteredCall, 'costUsd'>[]
+}
+
+/** Prices the calls and stores the record. Never throws: metering must not fail a rewrite. */
+export async function recordUsage(usage: RewriteUsage): Promise<void> {
+    const calls = usage.calls.map(c => ({ ...c, costUsd: estimateCost(c.model, c.inputTokens, c.outputTokens) }))
+    const record: UsageRecord = {
+        ...usage,
+        calls,
+        inputTokens: calls.reduce((sum, c) => sum + c.inputTokens, 0),
+        outputTokens: calls.reduce((sum, c) => sum + c.outputTokens, 0),
+        costUsd: calls.reduce((sum, c) => sum + c.costUsd, 0),
+    }
+    console.log(`[Usage] event=rewrite anon_id=${record.anonId} user_id=${record.userId || '-'} provider=${record.provider} calls=${calls.length} input_tokens=${record.inputTokens} output_tokens=${record.outputTokens} cost_usd=${record.costUsd.toFixed(6)} cache=${record.cacheStatus}`)
+    try {
+        await getUsageStore().record(record)
+    } catch (error) {
+        console.error('Usage store error:', error)
+    }
+}
@@ -0,0 +1,16 @@
+import { UsageRecord, UsageStore } from './types'
+
+/** Per-process; keeps the newest `maxRecords`. */
+export function createMemoryUsageStore(maxRecords: number): UsageStore {
+    const records: UsageRecord[] = []
+    return {
+        id: 'memory',
+        async record(record: UsageRecord) {
+            records.push(record)
+            if (records.length > maxRecords) records.splice(0, records.length - maxRecords)
+        },
+        async list(fromMs: number, toMs: number) {
+            return records.filter(r => r.timestamp >= fromMs && r.timestamp < toMs)
+        },
+    }
+}
@@ -0,0 +1,32 @@
+// USD per million input/output tokens, list prices at the time of writing; override with MODEL_PRICES
+const DEFAULT_PRICES: Record<string, [number, number]> = {
+    'gemini-2.0-flash-exp': [0, 0],
+    'gemini-2.0-flash': [0.1, 0.4],
+    'gemini-1.5-flash': [0.075, 0.3],
+    'gemini-1.5-pro': [1.25, 5],
+    'llama-3.3-70b-versatile': [0.59, 0.79],
+    'llama-3.1-8b-instant': [0.05, 0.08],
+    'gpt-4o-mini': [0.15, 0.6],
+    'gpt-4o': [2.5, 10],
+    'mock-v1': [0, 0],
+}
+
+// MODEL_PRICES='{"my-model": [0.2, 0.8]}' adds or replaces entries
+function prices(): Record<string, [number, number]> {
+    if (!process.env.MODEL_PRICES) return DEFAULT_PRICES
+    try {
+        return { ...DEFAULT_PRICES, ...JSON.parse(process.env.MODEL_PRICES) }
+    } catch {
+        console.warn('[Usage] event=invalid_model_prices')
+        return DEFAULT_PRICES
+    }
+}
+
+/** Estimated cost of one call. Unknown models match the longest known prefix ("gpt-4o-mini-2024-07-18"), else cost 0. */
+export function estimateCost(model: string, inputTokens: number, outputTokens: number): number {
+    const table = prices()
+    const key = table[model] ? model : Object.keys(table).filter(k => model.startsWith(k)).sort((a, b) => b.length - a.length)[0]
+    if (!key) return 0
+    const [input, output] = table[key]
+    return (inputTokens * input + outputTokens * output) / 1_000_000
+}
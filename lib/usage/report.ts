@@ -0,0 +1,73 @@
+import { utcDay } from './days'
+import { UsageRecord } from './types'
+
+type Totals = {
+    requests: number
+    llmCalls: number
+    inputTokens: number
+    outputTokens: number
+    costUsd: number
+}
+
+export type UsageReport = {
+    totals: Totals & { errors: number; cacheHits: number; cacheHitRate: number; avgLatencyMs: number }
+    daily: (Totals & { date: string; cacheHits: number })[]
+    byProvider: (Omit<Totals, 'requests'> & { provider: string; model: string })[]
+    topUsers: (Totals & { id: string; signedIn: boolean })[] // user id when signed in, anon_id otherwise
+}
+
+const emptyTotals = (): Totals => ({ requests: 0, llmCalls: 0, inputTokens: 0, outputTokens: 0, costUsd: 0 })
+
+function add(totals: Totals, r: UsageRecord) {
+    totals.requests++
+    totals.llmCalls += r.calls.length
+    totals.inputTokens += r.inputTokens
+    totals.outputTokens += r.outputTokens
+    totals.costUsd += r.costUsd
+}
+
+function group<T>(map: Map<string, T>, key: string, create: () => T): T {
+    if (!map.has(key)) map.set(key, create())
+    return map.get(key)!
+}
+
+/** Aggregates for the admin dashboard. Cost by provider is per model call, so fallbacks are charged to the provider that spent the tokens. */
+export function summarizeUsage(records: UsageRecord[], topUserCount = 10): UsageReport {
+    const totals = { ...emptyTotals(), errors: 0, cacheHits: 0, cacheHitRate: 0, avgLatencyMs: 0 }
+    const daily = new Map<string, Totals & { date: string; cacheHits: number }>()
+    const byProvider = new Map<string, Omit<Totals, 'requests'> & { provider: string; model: string }>()
+    const users = new Map<string, Totals & { id: string; signedIn: boolean }>()
+    let latency = 0
+
+    for (const r of records) {
+        add(totals, r)
+        latency += r.latencyMs
+        if (r.status === 'error') totals.errors++
+        if (r.cacheStatus === 'HIT') totals.cacheHits++
+
+        const day = group(daily, utcDay(r.timestamp), () => ({ ...emptyTotals(), date: utcDay(r.timestamp), cacheHits: 0 }))
+        add(day, r)
+        if (r.cacheStatus === 'HIT') day.cacheHits++
+
+        const userKey = r.userId ? `user:${r.userId}` : `anon:${r.anonId}`
+        add(group(users, userKey, () => ({ ...emptyTotals(), id: r.userId || r.anonId, signedIn: !!r.userId })), r)
+
+        for (const call of r.calls) {
+            const p = group(byProvider, `${call.provider}/${call.model}`, () => ({ provider: call.provider, model: call.model, llmCalls: 0, inputTokens: 0, outputTokens: 0, costUsd: 0 }))
+            p.llmCalls++
+            p.inputTokens += call.inputTokens
+            p.outputTokens += call.outputTokens
+            p.costUsd += call.costUsd
+        }
+    }
+
+    totals.cacheHitRate = records.length > 0 ? totals.cacheHits / records.length : 0
+    totals.avgLatencyMs = records.length > 0 ? Math.round(latency / records.length) : 0
+
+    return {
+        totals,
+        daily: Array.from(daily.values()).sort((a, b) => b.date.localeCompare(a.date)),
+        byProvider: Array.from(byProvider.values()).sort((a, b) => b.costUsd - a.costUsd || b.llmCalls - a.llmCalls),
+        topUsers: Array.from(users.values()).sort((a, b) => b.costUsd - a.costUsd || b.requests - a.requests).slice(0, topUserCount),
+    }
+}
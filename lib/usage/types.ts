@@ -0,0 +1,35 @@
+// One model call of a rewrite, with its estimated cost
+export type MeteredCall = {
+    provider: string
+    model: string
+    inputTokens: number
+    outputTokens: number
+    costUsd: number
+}
+
+// One /api/rewrite or /api/rewrite/stream request
+export type UsageRecord = {
+    timestamp: number
+    anonId: string
+    userId?: string // set for signed-in users
+    provider: string // provider that served the final answer; 'cache' for full cache hits
+    model: string
+    status: 'ok' | 'error'
+    cacheStatus: 'HIT' | 'MISS' | 'PARTIAL' | 'NONE'
+    paragraphs: number
+    iterations: number
+    calls: MeteredCall[]
+    inputTokens: number
+    outputTokens: number
+    costUsd: number
+    latencyMs: number
+}
+
+/** Append-only storage for usage records, queried by time range for the admin dashboard. */
+export interface UsageStore {
+    id: string
+    record(record: UsageRecord): Promise<void>
+    list(fromMs: number, toMs: number): Promise<UsageRecord[]>
+}
+
+export type UsageStoreId = 'memory' | 'fs' | 'upstash'
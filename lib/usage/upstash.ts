@@ -0,0 +1,29 @@
+import { fetchUpstash } from '@/lib/upstash'
+import { utcDay, utcDays } from './days'
+import { UsageRecord, UsageStore } from './types'
+
+/** One Redis list per UTC day, expiring after `retentionDays`. */
+export function createUpstashUsageStore(retentionDays: number, prefix = 'usage:'): UsageStore {
+    return {
+        id: 'upstash',
+        async record(record: UsageRecord) {
+            const key = `${prefix}${utcDay(record.timestamp)}`
+            await fetchUpstash(['RPUSH', key, JSON.stringify(record)])
+            await fetchUpstash(['EXPIRE', key, String(retentionDays * 24 * 60 * 60)])
+        },
+        async list(fromMs: number, toMs: number) {
+            const records: UsageRecord[] = []
+            for (const day of utcDays(fromMs, toMs)) {
+                const items = await fetchUpstash(['LRANGE', `${prefix}${day}`, '0', '-1'])
+                if (!Array.isArray(items)) continue
+                for (const item of items) {
+                    try {
+                        const record: UsageRecord = JSON.parse(item)
+                        if (record.timestamp >= fromMs && record.timestamp < toMs) records.push(record)
+                    } catch { }
+                }
+            }
+            return records
+        },
+    }
+}
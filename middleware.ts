@@ -1,47 +1,45 @@
 import { NextResponse } from 'next/server'
 import type { NextRequest } from 'next/server'
+import { SESSION_COOKIE, authEnabled, verifySession } from '@/lib/auth/session'
 
-export function middleware(request: NextRequest) {
-    // 1. Check if password gate is disabled via env var
-    if (process.env.DISABLE_PASSWORD_GATE === '1') {
-        return NextResponse.next()
-    }
-
-    // 2. Define paths that don't satisfy the "site-wide" password gate
-    // - /unlock (the page to enter password)
-    // - /_next/* (Next.js assets)
-    // - /favicon.ico, /robots.txt, /sitemap.xml (Public files)
-    // - /api/* (API routes are protected separately or public, EXCEPT /api/rewrite which uses the cookie too)
-    //   Wait, user requirement 3 says: "/api/* (allow API routes; BUT protect /api/rewrite by requiring auth cookie too)"
-    //   So middleware should ALLOW /api/* through to the route handlers.
-
-    const { pathname } = request.nextUrl
-
-    // Check for public paths
-    if (
+// Paths that never need a session: the login page, Next.js assets, public files, and APIs
+// that cost nothing (style profiles, quota status, .docx conversion, auth itself)
+function isPublicPath(pathname: string): boolean {
+    return (
         pathname.startsWith('/_next') ||
-        pathname.startsWith('/api') ||
         pathname === '/unlock' ||
         pathname === '/favicon.ico' ||
         pathname === '/robots.txt' ||
-        pathname === '/sitemap.xml'
-    ) {
+        pathname === '/sitemap.xml' ||
+        (pathname.startsWith('/api') && !pathname.startsWith('/api/rewrite'))
+    )
+}
+
+export async function middleware(request: NextRequest) {
+    // 1. Check if authentication is disabled via env var
+    if (!authEnabled()) {
         return NextResponse.next()
     }
 
-    // 3. Check for authentication cookie
-    const authCookie = request.cookies.get('cms_auth')
-    const isAuthenticated = authCookie?.value === '1'
+    const { pathname } = request.nextUrl
+    if (isPublicPath(pathname)) {
+        return NextResponse.next()
+    }
 
-    // 4. Redirect if not authenticated
-    if (!isAuthenticated) {
-        const unlockUrl = new URL('/unlock', request.url)
-        // Add ?next=/original-path to redirect back after login
-        unlockUrl.searchParams.set('next', pathname)
-        return NextResponse.redirect(unlockUrl)
+    // 2. Check for a valid signed session (the route handlers check it again)
+    const session = await verifySession(request.cookies.get(SESSION_COOKIE)?.value)
+    if (session) {
+        return NextResponse.next()
     }
 
-    return NextResponse.next()
+    // 3. APIs answer 401; pages redirect to the login page
+    if (pathname.startsWith('/api')) {
+        return NextResponse.json({ error: { type: 'unauthorized', message: 'Sign in required' } }, { status: 401 })
+    }
+    const unlockUrl = new URL('/unlock', request.url)
+    // Add ?next=/original-path to redirect back after login
+    unlockUrl.searchParams.set('next', pathname)
+    return NextResponse.redirect(unlockUrl)
 }
 
 // Configure middleware to match all paths except static assets (handled by logic above, but good for perf)
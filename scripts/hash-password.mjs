@@ -0,0 +1,20 @@
+// Prints a user entry for AUTH_USERS_FILE / AUTH_USERS, with the password hashed the way lib/auth/users.ts expects.
+// The password is read from stdin so it stays out of shell history:
+//   node scripts/hash-password.mjs alice < /dev/tty
+import { randomBytes, randomUUID, scryptSync } from 'crypto'
+import { createInterface } from 'readline'
+
+const username = process.argv[2]
+if (!username) {
+    console.error('Usage: node scripts/hash-password.mjs <username>  (password on stdin)')
+    process.exit(1)
+}
+
+const rl = createInterface({ input: process.stdin })
+rl.once('line', (password) => {
+    rl.close()
+    const salt = randomBytes(16)
+    const key = scryptSync(password.normalize('NFKC'), salt, 64)
+    const passwordHash = `scrypt$${salt.toString('base64')}$${key.toString('base64')}`
+    console.log(JSON.stringify({ id: randomUUID(), username, passwordHash }, null, 2))
+})
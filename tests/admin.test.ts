@@ -0,0 +1,73 @@
+import { afterEach, beforeAll, describe, expect, it, vi } from 'vitest'
+
+// Server actions read the request through next/headers; each test sets what they see
+const request = vi.hoisted(() => ({ headers: new Headers(), cookies: new Map<string, string>() }))
+vi.mock('next/headers', () => ({
+    headers: () => request.headers,
+    cookies: () => ({
+        get: (name: string) => request.cookies.has(name) ? { name, value: request.cookies.get(name) } : undefined,
+        set: (name: string, value: string) => { request.cookies.set(name, value) },
+        delete: (opts: { name: string }) => { request.cookies.delete(opts.name) },
+    }),
+}))
+
+import { ADMIN_COOKIE, isAdmin } from '@/lib/admin'
+import { signSession, verifySession } from '@/lib/auth'
+import { verifyAdminPassword } from '@/app/admin/usage/actions'
+
+function password(value: string): FormData {
+    const data = new FormData()
+    data.set('password', value)
+    return data
+}
+
+beforeAll(() => {
+    process.env.SESSION_SECRET = 'test-secret'
+    process.env.ADMIN_PASSWORD = 'admin-pass'
+})
+
+afterEach(() => {
+    request.cookies.clear()
+    process.env.ADMIN_PASSWORD = 'admin-pass'
+    vi.useRealTimers()
+})
+
+describe('admin login', () => {
+    it('issues an expiring admin session for the right password', async () => {
+        request.headers = new Headers({ 'x-forwarded-for': '198.51.100.1' })
+        expect(await verifyAdminPassword(password('admin-pass'))).toEqual({ success: true })
+        expect(await isAdmin()).toBe(true)
+
+        vi.useFakeTimers()
+        vi.setSystemTime(Date.now() + 13 * 60 * 60 * 1000)
+        expect(await isAdmin()).toBe(false)
+    })
+
+    it('signs admins out when the password changes', async () => {
+        request.headers = new Headers({ 'x-forwarded-for': '198.51.100.2' })
+        await verifyAdminPassword(password('admin-pass'))
+        process.env.ADMIN_PASSWORD = 'rotated-pass'
+        expect(await isAdmin()).toBe(false)
+    })
+
+    it('keeps admin and user sessions apart', async () => {
+        request.cookies.set(ADMIN_COOKIE, await signSession({ id: 'admin', name: 'admin' }))
+        expect(await isAdmin()).toBe(false)
+
+        request.headers = new Headers({ 'x-forwarded-for': '198.51.100.3' })
+        await verifyAdminPassword(password('admin-pass'))
+        expect(await verifySession(request.cookies.get(ADMIN_COOKIE))).toBeNull()
+    })
+
+    it('locks out repeated wrong passwords', async () => {
+        for (let i = 0; i < 5; i++) {
+            request.headers = new Headers({ 'x-forwarded-for': `10.0.0.${i}, 198.51.100.${10 + i}` })
+            expect(await verifyAdminPassword(password('guess'))).toEqual({ success: false, error: 'Incorrect password.' })
+        }
+        request.headers = new Headers({ 'x-forwarded-for': '198.51.100.99' })
+        const locked = await verifyAdminPassword(password('admin-pass'))
+        expect(locked.success).toBe(false)
+        expect(locked.error).toMatch(/Too many failed attempts/)
+        expect(request.cookies.has(ADMIN_COOKIE)).toBe(false)
+    })
+})
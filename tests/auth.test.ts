@@ -0,0 +1,118 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest'
+
+// Server actions read the request through next/headers; each test sets what they see
+const request = vi.hoisted(() => ({ headers: new Headers(), cookies: new Map<string, string>() }))
+vi.mock('next/headers', () => ({
+    headers: () => request.headers,
+    cookies: () => ({
+        get: (name: string) => request.cookies.has(name) ? { name, value: request.cookies.get(name) } : undefined,
+        set: (name: string, value: string) => { request.cookies.set(name, value) },
+        delete: (opts: { name: string }) => { request.cookies.delete(opts.name) },
+    }),
+}))
+
+import { beginLoginAttempt, hashPassword, recordLoginSuccess, signSession, verifySession, verifyPassword, SESSION_COOKIE } from '@/lib/auth'
+import { clientIp } from '@/lib/ratelimit'
+import { signIn } from '@/app/unlock/actions'
+
+function form(fields: Record<string, string>): FormData {
+    const data = new FormData()
+    for (const [k, v] of Object.entries(fields)) data.set(k, v)
+    return data
+}
+
+beforeAll(async () => {
+    process.env.SESSION_SECRET = 'test-secret'
+    process.env.AUTH_USERS = JSON.stringify({ users: [{ id: 'u1', username: 'editor', passwordHash: await hashPassword('correct horse') }] })
+})
+
+describe('passwords', () => {
+    it('verifies only the password that was hashed', async () => {
+        const hash = await hashPassword('s3cret')
+        expect(await verifyPassword('s3cret', hash)).toBe(true)
+        expect(await verifyPassword('S3cret', hash)).toBe(false)
+        expect(await verifyPassword('s3cret', 'plain$text')).toBe(false)
+    })
+})
+
+describe('sessions', () => {
+    it('round-trips a signed token', async () => {
+        const token = await signSession({ id: 'u1', name: 'editor' })
+        expect(await verifySession(token)).toMatchObject({ sub: 'u1', name: 'editor' })
+    })
+
+    it('rejects tampered, foreign and expired tokens', async () => {
+        const token = await signSession({ id: 'u1', name: 'editor' })
+        const [body, signature] = token.split('.')
+        const forged = Buffer.from(JSON.stringify({ sub: 'admin', name: 'x', iat: 0, exp: 9e9 })).toString('base64url')
+        expect(await verifySession(`${forged}.${signature}`)).toBeNull()
+        expect(await verifySession(`${body}.${signature}.extra`)).toBeNull()
+
+        process.env.SESSION_SECRET = 'another-secret'
+        expect(await verifySession(token)).toBeNull()
+        process.env.SESSION_SECRET = 'test-secret'
+
+        vi.useFakeTimers()
+        vi.setSystemTime(Date.now() + 8 * 24 * 60 * 60 * 1000)
+        expect(await verifySession(token)).toBeNull()
+        vi.useRealTimers()
+    })
+})
+
+describe('login throttle', () => {
+    it('refuses attempts past the limit, even when they arrive together', async () => {
+        const waits = await Promise.all(Array.from({ length: 10 }, () => beginLoginAttempt('parallel', '203.0.113.1')))
+        expect(waits.filter(w => w === 0)).toHaveLength(5)
+        expect(Math.min(...waits.filter(w => w > 0))).toBeGreaterThan(0)
+    })
+
+    it('locks an IP out across usernames', async () => {
+        for (let i = 0; i < 5; i++) expect(await beginLoginAttempt(`name-${i}`, '203.0.113.2')).toBe(0)
+        expect(await beginLoginAttempt('name-5', '203.0.113.2')).toBeGreaterThan(0)
+    })
+
+    it('clears the username and gives the IP its attempt back on success', async () => {
+        for (let i = 0; i < 4; i++) await beginLoginAttempt('returning', '203.0.113.3')
+        await beginLoginAttempt('returning', '203.0.113.3')
+        await recordLoginSuccess('returning', '203.0.113.3')
+        expect(await beginLoginAttempt('returning', '203.0.113.3')).toBe(0)
+    })
+})
+
+describe('clientIp', () => {
+    it('takes the address the trusted proxy appended, not what the client sent', () => {
+        expect(clientIp(new Headers({ 'x-forwarded-for': '1.2.3.4, 198.51.100.7' }))).toBe('198.51.100.7')
+        expect(clientIp(new Headers({ 'x-forwarded-for': '198.51.100.7' }))).toBe('198.51.100.7')
+        expect(clientIp(new Headers())).toBe('unknown')
+    })
+
+    it('honors TRUSTED_PROXY_HOPS', () => {
+        process.env.TRUSTED_PROXY_HOPS = '2'
+        expect(clientIp(new Headers({ 'x-forwarded-for': '1.2.3.4, 198.51.100.7, 10.0.0.1' }))).toBe('198.51.100.7')
+        process.env.TRUSTED_PROXY_HOPS = '0'
+        expect(clientIp(new Headers({ 'x-forwarded-for': '1.2.3.4' }))).toBe('unknown')
+        delete process.env.TRUSTED_PROXY_HOPS
+    })
+})
+
+describe('signIn', () => {
+    it('sets a session cookie for the right password', async () => {
+        request.headers = new Headers({ 'x-forwarded-for': '198.51.100.20' })
+        request.cookies.clear()
+        expect(await signIn(form({ username: 'Editor', password: 'correct horse' }))).toEqual({ success: true })
+        expect(await verifySession(request.cookies.get(SESSION_COOKIE))).toMatchObject({ sub: 'u1' })
+    })
+
+    it('locks the account after repeated failures, whatever X-Forwarded-For claims', async () => {
+        request.cookies.clear()
+        for (let i = 0; i < 5; i++) {
+            request.headers = new Headers({ 'x-forwarded-for': `10.9.9.${i}, 198.51.100.30` })
+            expect(await signIn(form({ username: 'editor', password: 'wrong' }))).toMatchObject({ success: false, error: 'Incorrect username or password.' })
+        }
+        request.headers = new Headers({ 'x-forwarded-for': '10.9.9.99, 198.51.100.31' })
+        const locked = await signIn(form({ username: 'editor', password: 'correct horse' }))
+        expect(locked).toMatchObject({ success: false })
+        expect(locked.error).toMatch(/Too many failed attempts/)
+        expect(request.cookies.has(SESSION_COOKIE)).toBe(false)
+    })
+})
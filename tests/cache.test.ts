@@ -0,0 +1,121 @@
+import { afterAll, afterEach, describe, expect, it, vi } from 'vitest'
+import { promises as fs } from 'fs'
+import os from 'os'
+import path from 'path'
+import { cacheKey, createFsCache, createMemoryCache, createUpstashCache } from '@/lib/cache'
+
+describe('cacheKey', () => {
+    it('keeps differently split parts apart', () => {
+        expect(cacheKey(['ab', 'c'])).not.toBe(cacheKey(['a', 'bc']))
+        expect(cacheKey(['ab', 'c'])).toBe(cacheKey(['ab', 'c']))
+        expect(cacheKey(['x'])).toMatch(/^[0-9a-f]{64}$/)
+    })
+})
+
+describe('memory cache', () => {
+    afterEach(() => { vi.useRealTimers() })
+
+    it('returns what was stored until the entry expires', async () => {
+        vi.useFakeTimers()
+        const cache = createMemoryCache(10)
+        await cache.set('k', { n: 1 }, 1000)
+        expect(await cache.get('k')).toEqual({ n: 1 })
+        vi.advanceTimersByTime(1000)
+        expect(await cache.get('k')).toBeNull()
+    })
+
+    it('evicts the least recently used entry', async () => {
+        const cache = createMemoryCache(2)
+        await cache.set('a', 1, 60000)
+        await cache.set('b', 2, 60000)
+        await cache.get('a')
+        await cache.set('c', 3, 60000)
+        expect(await cache.get('a')).toBe(1)
+        expect(await cache.get('b')).toBeNull()
+        expect(await cache.get('c')).toBe(3)
+    })
+
+    it('deletes entries', async () => {
+        const cache = createMemoryCache(2)
+        await cache.set('a', 1, 60000)
+        await cache.delete('a')
+        expect(await cache.get('a')).toBeNull()
+    })
+})
+
+describe('fs cache', () => {
+    const dirs: string[] = []
+    const newCache = async (maxEntries: number) => {
+        const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'cmos-cache-test-'))
+        dirs.push(dir)
+        return { dir, cache: createFsCache(dir, maxEntries) }
+    }
+    afterAll(() => Promise.all(dirs.map(dir => fs.rm(dir, { recursive: true, force: true }))))
+
+    it('round-trips entries through files and expires them', async () => {
+        const { dir, cache } = await newCache(10)
+        await cache.set('k', { text: 'cached' }, 60000)
+        expect(await cache.get('k')).toEqual({ text: 'cached' })
+        expect(await fs.readdir(dir)).toEqual(['k.json'])
+
+        await cache.set('old', 1, -1)
+        expect(await cache.get('old')).toBeNull()
+        expect(await fs.readdir(dir)).toEqual(['k.json'])
+    })
+
+    it('evicts the least recently used files past the limit', async () => {
+        const { dir, cache } = await newCache(2)
+        await cache.set('a', 1, 60000)
+        await cache.set('b', 2, 60000)
+        // mtimes have millisecond resolution at best, so age the files explicitly
+        await fs.utimes(path.join(dir, 'a.json'), new Date(1000), new Date(1000))
+        await fs.utimes(path.join(dir, 'b.json'), new Date(2000), new Date(2000))
+        await cache.get('a')
+        await cache.set('c', 3, 60000)
+        expect((await fs.readdir(dir)).sort()).toEqual(['a.json', 'c.json'])
+    })
+
+    it('treats a missing or corrupt file as a miss', async () => {
+        const { dir, cache } = await newCache(10)
+        expect(await cache.get('missing')).toBeNull()
+        await fs.writeFile(path.join(dir, 'bad.json'), '{"value": ')
+        expect(await cache.get('bad')).toBeNull()
+    })
+})
+
+describe('upstash cache', () => {
+    afterEach(() => {
+        vi.unstubAllEnvs()
+        vi.unstubAllGlobals()
+        vi.restoreAllMocks()
+    })
+
+    it('stores JSON under a prefix with a PX expiry', async () => {
+        vi.stubEnv('UPSTASH_REDIS_REST_URL', 'https://upstash.test')
+        vi.stubEnv('UPSTASH_REDIS_REST_TOKEN', 'token')
+        const store = new Map<string, string>()
+        const commands: string[][] = []
+        vi.stubGlobal('fetch', vi.fn(async (_url: string, init: { body: string }) => {
+            const command: string[] = JSON.parse(init.body)
+            commands.push(command)
+            const [op, key, value] = command
+            const result = op === 'SET' ? (store.set(key, value), 'OK') : op === 'GET' ? store.get(key) ?? null : (store.delete(key), 1)
+            return new Response(JSON.stringify({ result }))
+        }))
+
+        const cache = createUpstashCache()
+        await cache.set('k', { n: 1 }, 5000)
+        expect(commands[0]).toEqual(['SET', 'cache:k', '{"n":1}', 'PX', '5000'])
+        expect(await cache.get('k')).toEqual({ n: 1 })
+        await cache.delete('k')
+        expect(await cache.get('k')).toBeNull()
+    })
+
+    it('behaves like a miss when Upstash is unreachable', async () => {
+        vi.stubEnv('UPSTASH_REDIS_REST_URL', 'https://upstash.test')
+        vi.stubEnv('UPSTASH_REDIS_REST_TOKEN', 'token')
+        vi.stubGlobal('fetch', vi.fn(async () => { throw new Error('network down') }))
+        vi.spyOn(console, 'error').mockImplementation(() => {})
+        expect(await createUpstashCache().get('k')).toBeNull()
+    })
+})
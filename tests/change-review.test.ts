@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest'
+import { ReviewShortcutState, applyDecisions, decideAllOfType, describeChange, reviewShortcut, revertibleChangeIds } from '@/lib/change-review'
+import { Change, RewriteResponse } from '@/types'
+
+const change = (id: string, before: string, after: string, start: number, type: Change['type'] = 'grammar'): Change => ({
+    change_id: id, type, severity: 'recommended', reason: '', before, after, context_before: '', context_after: '',
+    loc: { start, end: start + after.length },
+})
+
+const result: RewriteResponse = {
+    revised_text: 'We walked toward the station, which was all right.',
+    changes: [change('c1', 'towards', 'toward', 10), change('c2', 'alright', 'all right', 40, 'spelling')],
+}
+
+const state = (selectedChangeId: string | null, extra: Partial<ReviewShortcutState> = {}): ReviewShortcutState =>
+    ({ changes: result.changes, selectedChangeId, canDecide: true, showHighlights: true, ...extra })
+
+describe('applyDecisions', () => {
+    it('swaps rejected changes back and shifts the ones after them', () => {
+        const reviewed = applyDecisions(result, { c1: 'rejected' })
+        expect(reviewed.revised_text).toBe('We walked towards the station, which was all right.')
+        expect(reviewed.changes).toEqual([{ ...result.changes[1], loc: { start: 41, end: 50 } }])
+    })
+})
+
+describe('decideAllOfType', () => {
+    // c2 overlaps c1 and c3 has no location: neither can be swapped back
+    const changes = [
+        change('c1', 'alright', 'all right', 0, 'spelling'),
+        change('c2', 'right', 'right,', 4, 'spelling'),
+        { ...change('c3', 'recieve', 'receive', 0, 'spelling'), loc: undefined },
+        change('c4', 'towards', 'toward', 20),
+    ]
+
+    it('leaves the changes it cannot revert undecided', () => {
+        expect(revertibleChangeIds(changes)).toEqual(new Set(['c1', 'c4']))
+        expect(decideAllOfType(changes, { c4: 'accepted' }, 'spelling', 'rejected')).toEqual({ c1: 'rejected', c4: 'accepted' })
+    })
+})
+
+describe('reviewShortcut', () => {
+    it('J and K walk through the changes, stopping at either end', () => {
+        expect(reviewShortcut('j', state(null))?.select).toBe('c1')
+        expect(reviewShortcut('j', state('c1'))?.select).toBe('c2')
+        expect(reviewShortcut('j', state('c2'))?.select).toBe('c2')
+        expect(reviewShortcut('k', state(null))?.select).toBe('c2')
+        expect(reviewShortcut('K', state('c2'))?.select).toBe('c1')
+        expect(reviewShortcut('k', state('c1'))?.select).toBe('c1')
+    })
+
+    it('announces the change it selects', () => {
+        expect(reviewShortcut('j', state(null))?.announcement).toBe('Change 1 of 2, grammar: towards to toward.')
+    })
+
+    it('A accepts the selected change, announces it and moves on', () => {
+        expect(reviewShortcut('a', state('c1'))).toEqual({
+            decide: { changeId: 'c1', decision: 'accepted' },
+            select: 'c2',
+            announcement: 'Accepted change 1. Change 2 of 2, spelling: alright to all right.',
+        })
+    })
+
+    it('R rejects the selected change and stays on the last one', () => {
+        expect(reviewShortcut('r', state('c2'))).toMatchObject({
+            decide: { changeId: 'c2', decision: 'rejected' },
+            select: 'c2',
+            announcement: 'Rejected change 2. Change 2 of 2, spelling: alright to all right.',
+        })
+    })
+
+    it('does not decide without a selection, while streaming or on an unlocated change', () => {
+        expect(reviewShortcut('a', state(null))).toBeNull()
+        expect(reviewShortcut('a', state('c1', { canDecide: false }))).toBeNull()
+        const unlocated = { ...result.changes[0], loc: undefined }
+        expect(reviewShortcut('r', state('c1', { changes: [unlocated] }))).toBeNull()
+    })
+
+    it('H toggles the highlights and says which way', () => {
+        expect(reviewShortcut('h', state(null))).toEqual({ toggleHighlights: true, announcement: 'Highlights hidden.' })
+        expect(reviewShortcut('h', state(null, { showHighlights: false }))).toEqual({ toggleHighlights: true, announcement: 'Highlights shown.' })
+    })
+
+    it('Escape clears the selection and is left to the browser when nothing is selected', () => {
+        expect(reviewShortcut('Escape', state('c1'))).toEqual({ select: null, announcement: '' })
+        expect(reviewShortcut('Escape', state(null))).toBeNull()
+    })
+
+    it('leaves other keys, and J/K without changes, to the browser', () => {
+        expect(reviewShortcut('x', state('c1'))).toBeNull()
+        expect(reviewShortcut('j', state(null, { changes: [] }))).toBeNull()
+    })
+})
+
+describe('describeChange', () => {
+    it('names insertions and deletions', () => {
+        expect(describeChange(change('c1', '', ',', 0, 'punctuation'), 0, 3)).toBe('Change 1 of 3, punctuation: nothing to ,.')
+        expect(describeChange(change('c2', 'very', '', 0, 'INSERT_AT_END'), 1, 3)).toBe('Change 2 of 3, punctuation: very to nothing.')
+    })
+})
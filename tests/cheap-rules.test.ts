@@ -0,0 +1,32 @@
+import { afterAll, describe, expect, it } from 'vitest'
+import { applyCheapRules } from '@/lib/rules'
+import { getProfile } from '@/lib/profiles'
+import { GoldenResult, expectHighlightsInPlace, goldenResult, loadGolden } from './golden'
+
+type Input = { text: string; profile?: string; markdown?: boolean }
+
+const golden = loadGolden<Input, GoldenResult>('cheap-rules.json')
+afterAll(golden.save)
+
+function run(input: Input) {
+    const profile = input.profile ? getProfile(input.profile) : undefined
+    return goldenResult(applyCheapRules(input.text, profile, { markdown: input.markdown }))
+}
+
+describe('applyCheapRules', () => {
+    for (const c of golden.cases) {
+        it(c.name, () => {
+            const result = run(c.input)
+            expectHighlightsInPlace(result)
+            golden.check(c, result)
+        })
+    }
+
+    for (const c of golden.cases) {
+        it(`is idempotent: ${c.name}`, () => {
+            const again = run({ ...c.input, text: run(c.input).revised_text })
+            // Suggestions leave the text alone, so they are reported again
+            expect(again.changes.filter(ch => ch.before !== ch.after)).toEqual([])
+        })
+    }
+})
@@ -0,0 +1,31 @@
+import { afterAll, describe, expect, it } from 'vitest'
+import { HouseOverrides, getDefaultProfile } from '@/lib/profiles'
+import { checkCitations } from '@/lib/rules'
+import { GoldenResult, expectHighlightsInPlace, goldenResult, loadGolden } from './golden'
+
+type Input = { text: string; overrides?: HouseOverrides }
+
+const golden = loadGolden<Input, GoldenResult>('citations.json')
+afterAll(golden.save)
+
+function run(input: Input) {
+    const profile = { ...getDefaultProfile(), overrides: input.overrides }
+    return goldenResult(checkCitations(input.text, profile))
+}
+
+describe('checkCitations', () => {
+    for (const c of golden.cases) {
+        it(c.name, () => {
+            const result = run(c.input)
+            expectHighlightsInPlace(result)
+            golden.check(c, result)
+        })
+    }
+
+    for (const c of golden.cases) {
+        it(`is idempotent: ${c.name}`, () => {
+            const again = run({ ...c.input, text: run(c.input).revised_text })
+            expect(again.changes).toEqual([])
+        })
+    }
+})
@@ -0,0 +1,27 @@
+import { afterAll, describe, expect, it } from 'vitest'
+import { checkConsistency } from '@/lib/rules'
+import { GoldenResult, expectHighlightsInPlace, goldenResult, loadGolden } from './golden'
+
+type Input = { text: string }
+
+const golden = loadGolden<Input, GoldenResult>('consistency.json')
+afterAll(golden.save)
+
+describe('checkConsistency', () => {
+    for (const c of golden.cases) {
+        it(c.name, () => {
+            const result = goldenResult(checkConsistency(c.input.text))
+            expectHighlightsInPlace(result)
+            golden.check(c, result)
+        })
+    }
+
+    it('reports suggestions without editing the text', () => {
+        const text = 'Two players will re-sign today. The coach may resign, and the captain may resign too.'
+        const result = checkConsistency(text)
+        expect(result.revisedText).toBe(text)
+        expect(result.changes).toHaveLength(1)
+        expect(result.changes[0]).toMatchObject({ before: 're-sign', after: 're-sign', severity: 'optional' })
+        expect(result.changes[0].reason).toMatch(/same word/)
+    })
+})
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest'
+import { Change } from '@/types'
+import { countUnexplained, diffTexts } from '@/lib/diff'
+
+function change(id: string, after: string, start: number): Change {
+    return { change_id: id, type: 'other', severity: 'recommended', reason: '', before: '', after, context_before: '', context_after: '', loc: { start, end: start + after.length } }
+}
+
+const original = 'We walked towards the station -- it was alright.'
+const revised = 'We walked toward the station—it was all right.'
+
+describe('diffTexts', () => {
+    it('diffs whole words', () => {
+        const segments = diffTexts(original, revised, 'word')
+        expect(segments.filter(s => s.op !== 'equal').map(s => [s.op, s.text])).toEqual([
+            ['delete', 'towards'], ['insert', 'toward'],
+            ['delete', ' -- '], ['insert', '—'],
+            ['delete', 'alright'], ['insert', 'all right'],
+        ])
+    })
+
+    it('diffs characters', () => {
+        const segments = diffTexts('the colour grey', 'the color gray', 'char')
+        expect(segments.filter(s => s.op !== 'equal').map(s => [s.op, s.text])).toEqual([
+            ['delete', 'u'], ['delete', 'e'], ['insert', 'a'],
+        ])
+    })
+
+    it('rebuilds both texts', () => {
+        for (const granularity of ['word', 'char'] as const) {
+            const segments = diffTexts(original, revised, granularity)
+            expect(segments.filter(s => s.op !== 'insert').map(s => s.text).join('')).toBe(original)
+            expect(segments.filter(s => s.op !== 'delete').map(s => s.text).join('')).toBe(revised)
+        }
+    })
+
+    it('links hunks to the changes located on them', () => {
+        const changes = [change('c1', 'toward', 10), change('c2', 'all right', 36)]
+        const segments = diffTexts(original, revised, 'word', changes)
+        const linked = segments.filter(s => s.op !== 'equal').map(s => [s.text, s.changeId])
+        expect(linked).toEqual([
+            ['towards', 'c1'], ['toward', 'c1'],
+            [' -- ', null], ['—', null],
+            ['alright', 'c2'], ['all right', 'c2'],
+        ])
+        expect(countUnexplained(segments)).toBe(1)
+    })
+
+    it('links a deletion to the change at its position', () => {
+        const segments = diffTexts('It was very, very late.', 'It was very late.', 'word', [change('c1', '', 11)])
+        expect(segments.filter(s => s.op !== 'equal')).toEqual([{ op: 'delete', text: ', very', changeId: 'c1' }])
+    })
+})
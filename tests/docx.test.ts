@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest'
+import JSZip from 'jszip'
+import { NextRequest } from 'next/server'
+import { POST as exportDocx } from '@/app/api/docx/export/route'
+import { buildTrackedDocx, extractDocxParagraphs, paragraphsToText } from '@/lib/docx'
+import { MAX_DOCUMENT_LENGTH } from '@/lib/rewrite/pipeline'
+import { DocxParagraph, RewriteResponse } from '@/types'
+
+const W_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main'
+
+async function docxWithBody(body: string): Promise<ArrayBuffer> {
+    const zip = new JSZip()
+    zip.file('word/document.xml', `<?xml version="1.0" encoding="UTF-8"?><w:document xmlns:w="${W_NS}"><w:body>${body}</w:body></w:document>`)
+    return zip.generateAsync({ type: 'arraybuffer' })
+}
+
+const run = (text: string, rPr = '') => `<w:r>${rPr ? `<w:rPr>${rPr}</w:rPr>` : ''}<w:t xml:space="preserve">${text}</w:t></w:r>`
+
+// A run anchoring a text box, the way Word writes one (DrawingML with a VML fallback)
+const textBox = (text: string) => `<w:r><mc:AlternateContent><mc:Choice Requires="wps"><w:drawing><wps:txbx><w:txbxContent><w:p>${run(text)}</w:p></w:txbxContent></wps:txbx></w:drawing></mc:Choice><mc:Fallback><w:pict><v:textbox><w:txbxContent><w:p>${run(text)}</w:p></w:txbxContent></v:textbox></w:pict></mc:Fallback></mc:AlternateContent></w:r>`
+
+describe('extractDocxParagraphs', () => {
+    it('keeps italics and bold at run level and drops empty paragraphs', async () => {
+        const data = await docxWithBody(`<w:p>${run('See ')}${run('Moby-Dick', '<w:i/>')}${run(', ')}${run('now', '<w:b w:val="1"/>')}</w:p><w:p/><w:p><w:pPr/>${run('Second &amp; last.')}</w:p>`)
+        expect(await extractDocxParagraphs(data)).toEqual([
+            { runs: [{ text: 'See ' }, { text: 'Moby-Dick', italic: true }, { text: ', ' }, { text: 'now', bold: true }] },
+            { runs: [{ text: 'Second & last.' }] },
+        ])
+    })
+
+    it('skips text boxes without cutting the paragraph that anchors them', async () => {
+        const data = await docxWithBody(`<w:p>${run('Before the box, ')}${textBox('Boxed text.')}${run('after the box.')}</w:p><w:p>${run('Next paragraph.')}</w:p>`)
+        expect(paragraphsToText(await extractDocxParagraphs(data))).toBe('Before the box, after the box.\n\nNext paragraph.')
+    })
+
+    it('reads a paragraph nested in another one as a paragraph of its own', async () => {
+        const data = await docxWithBody(`<w:p>${run('Outer start, ')}<w:sdt><w:sdtContent><w:p>${run('Inner.')}</w:p></w:sdtContent></w:sdt>${run('outer end.')}</w:p>`)
+        expect(paragraphsToText(await extractDocxParagraphs(data))).toBe('Outer start, outer end.\n\nInner.')
+    })
+})
+
+describe('buildTrackedDocx', () => {
+    const original = 'We walked towards the station.\n\nIt was alright.'
+    const result: RewriteResponse = {
+        revised_text: 'We walked toward the station.\n\nIt was all right.',
+        changes: [
+            { change_id: 'c1', type: 'grammar', severity: 'recommended', reason: '"Toward" is the American form.', before: 'towards', after: 'toward', context_before: 'We walked ', context_after: ' the station.', loc: { start: 10, end: 16 } },
+            { change_id: 'c2', type: 'spelling', severity: 'required', reason: '"Alright" is nonstandard.', before: 'alright', after: 'all right', context_before: 'It was ', context_after: '.', loc: { start: 37, end: 46 } },
+        ],
+    }
+
+    it('round-trips: accepting every tracked change gives the revised text', async () => {
+        const data = await buildTrackedDocx(original, result)
+        expect(paragraphsToText(await extractDocxParagraphs(data))).toBe(result.revised_text)
+    })
+
+    it('writes each edit as a tracked change with its reason as a comment', async () => {
+        const zip = await JSZip.loadAsync(await buildTrackedDocx(original, result))
+        const documentXml = await zip.file('word/document.xml')!.async('string')
+        const commentsXml = await zip.file('word/comments.xml')!.async('string')
+        // diff-match-patch keeps the edits minimal: "towards" loses its "s", "alright" gains "l "
+        expect(documentXml).toMatch(/<w:del\b[^>]*><w:r><w:delText xml:space="preserve">s<\/w:delText>/)
+        expect(documentXml).toMatch(/<w:ins\b[^>]*><w:r><w:t xml:space="preserve">l <\/w:t>/)
+        expect(documentXml.match(/<w:commentReference\b/g)).toHaveLength(2)
+        expect(commentsXml).toContain('&quot;Toward&quot; is the American form.')
+        expect(commentsXml).toContain('&quot;Alright&quot; is nonstandard.')
+    })
+
+    it('keeps the formatting of an imported document', async () => {
+        const paragraphs: DocxParagraph[] = [{ runs: [{ text: 'We read ' }, { text: 'Moby-Dick', italic: true }, { text: ' towards noon.' }] }]
+        const text = paragraphsToText(paragraphs)
+        const data = await buildTrackedDocx(text, { revised_text: text.replace('towards', 'toward'), changes: [] }, { paragraphs })
+        expect(await extractDocxParagraphs(data)).toEqual([
+            { runs: [{ text: 'We read ' }, { text: 'Moby-Dick', italic: true }, { text: ' toward noon.' }] },
+        ])
+    })
+})
+
+describe('POST /api/docx/export', () => {
+    function request(body: string, headers: Record<string, string> = {}) {
+        return new NextRequest('http://localhost/api/docx/export', { method: 'POST', headers: { 'content-type': 'application/json', ...headers }, body })
+    }
+
+    it('returns a .docx', async () => {
+        const resp = await exportDocx(request(JSON.stringify({ original: 'Hello.', result: { revised_text: 'Hello.', changes: [] } })))
+        expect(resp.status).toBe(200)
+        expect(resp.headers.get('Content-Type')).toContain('wordprocessingml')
+        expect(paragraphsToText(await extractDocxParagraphs(await resp.arrayBuffer()))).toBe('Hello.')
+    })
+
+    it('refuses a body over the size limit before reading it', async () => {
+        const resp = await exportDocx(request('{}', { 'content-length': String(6 * 1024 * 1024) }))
+        expect(resp.status).toBe(413)
+    })
+
+    it('refuses a body that grows over the size limit while streaming', async () => {
+        const resp = await exportDocx(request(JSON.stringify({ original: 'x'.repeat(6 * 1024 * 1024), result: { revised_text: '', changes: [] } })))
+        expect(resp.status).toBe(413)
+        expect(await resp.json()).toEqual({ error: { type: 'invalid_request', message: 'Export request is too large' } })
+    })
+
+    it('refuses a text over the document limit', async () => {
+        const original = 'a'.repeat(MAX_DOCUMENT_LENGTH + 1)
+        const resp = await exportDocx(request(JSON.stringify({ original, result: { revised_text: original, changes: [] } })))
+        expect(resp.status).toBe(413)
+    })
+
+    it('rejects a malformed payload', async () => {
+        for (const body of ['{"original": ', JSON.stringify({ original: 'Hi.' }), JSON.stringify({ original: 'Hi.', paragraphs: 'x', result: { revised_text: 'Hi.', changes: [] } })]) {
+            const resp = await exportDocx(request(body))
+            expect(resp.status).toBe(400)
+        }
+    })
+})
@@ -0,0 +1,44 @@
+import fs from 'fs'
+import path from 'path'
+import { expect } from 'vitest'
+import { RewriteResponse } from '@/types'
+
+// Golden fixtures: tests/fixtures/*.json hold { name, input, expected } cases. After an
+// intended behavior change, run `UPDATE_GOLDEN=1 npm test` and review the fixture diff.
+
+export type GoldenCase<I, O> = { name: string; input: I; expected?: O }
+
+export function loadGolden<I, O>(file: string) {
+    const fixturePath = path.join(__dirname, 'fixtures', file)
+    const cases: GoldenCase<I, O>[] = JSON.parse(fs.readFileSync(fixturePath, 'utf8'))
+    const update = process.env.UPDATE_GOLDEN === '1'
+    return {
+        cases,
+        check(c: GoldenCase<I, O>, actual: O) {
+            if (update) c.expected = actual
+            else expect(actual).toEqual(c.expected)
+        },
+        save() {
+            if (update) fs.writeFileSync(fixturePath, JSON.stringify(cases, null, 2) + '\n')
+        },
+    }
+}
+
+export type GoldenChange = { type: string; before: string; after: string; loc?: { start: number; end: number } }
+export type GoldenResult = { revised_text: string; changes: GoldenChange[] }
+
+// The stable part of a result: reasons and context are wording, not behavior
+export function goldenResult(result: { revised_text?: string; revisedText?: string; changes: RewriteResponse['changes'] }): GoldenResult {
+    return {
+        revised_text: (result.revised_text ?? result.revisedText)!,
+        changes: result.changes.map(c => ({ type: c.type, before: c.before, after: c.after, loc: c.loc })),
+    }
+}
+
+// Every highlight must sit exactly on the text the change produced
+export function expectHighlightsInPlace(result: GoldenResult) {
+    for (const c of result.changes) {
+        expect(c.loc, `${c.type} "${c.before}" -> "${c.after}" has no location`).toBeDefined()
+        expect(result.revised_text.slice(c.loc!.start, c.loc!.end).trim(), `highlight of "${c.before}" -> "${c.after}"`).toBe(c.after.trim())
+    }
+}
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest'
+import { diffHunks, reconcileWithDiff } from '@/lib/rewrite/guard'
+import { Change } from '@/types'
+
+const located = (change_id: string, before: string, after: string, start: number): Change => ({
+    change_id, type: 'grammar', severity: 'recommended', reason: 'Reason.', before, after, context_before: '', context_after: '',
+    loc: { start, end: start + after.length },
+})
+
+const before = 'We walked towards the station, which was alright.'
+const after = 'We walked toward the station, which was all right.'
+
+describe('diffHunks', () => {
+    it('locates each edit in the revised text', () => {
+        expect(diffHunks(before, after)).toEqual([
+            { deleted: 's', inserted: '', revStart: 16, revEnd: 16 },
+            { deleted: '', inserted: 'l ', revStart: 42, revEnd: 44 },
+        ])
+    })
+})
+
+describe('reconcileWithDiff', () => {
+    it('keeps changes that match the diff', () => {
+        const reported = [located('c1', 'towards', 'toward', 10), located('c2', 'alright', 'all right', 40)]
+        expect(reconcileWithDiff(before, after, reported)).toEqual({ changes: reported, phantom: 0, synthesized: 0 })
+    })
+
+    it('drops a reported change the text does not show', () => {
+        const phantom = located('c3', 'staton', 'station', 21)
+        const result = reconcileWithDiff(before, after, [located('c1', 'towards', 'toward', 10), located('c2', 'alright', 'all right', 40), phantom])
+        expect(result.phantom).toBe(1)
+        expect(result.changes.map(c => c.change_id)).toEqual(['c1', 'c2'])
+    })
+
+    it('reports an unexplained edit as an uncertain change covering whole words', () => {
+        const result = reconcileWithDiff(before, after, [located('c1', 'towards', 'toward', 10)])
+        expect(result.synthesized).toBe(1)
+        expect(result.changes[1]).toMatchObject({ type: 'other', severity: 'uncertain', before: 'alright', after: 'all right', loc: { start: 40, end: 49 } })
+    })
+
+    it('leaves unlocated changes to the pipeline', () => {
+        const unlocated = { ...located('c1', 'towards', 'toward', 10), loc: undefined }
+        expect(reconcileWithDiff(before, after, [unlocated]).changes[0]).toBe(unlocated)
+    })
+})
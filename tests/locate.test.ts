@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest'
+import { Change } from '@/types'
+import { locateChangeInText, projectChanges, projectCoordinates } from '@/lib/rewrite/locate'
+
+function change(fields: Partial<Change>): Change {
+    return { change_id: 'c1', type: 'other', severity: 'recommended', reason: '', before: '', after: '', context_before: '', context_after: '', ...fields }
+}
+
+describe('locateChangeInText', () => {
+    const text = 'We went toward the hill and then toward the river.'
+
+    it('picks the occurrence whose context matches', () => {
+        const loc = locateChangeInText(text, change({ before: 'towards', after: 'toward', context_before: 'and then ', context_after: ' the river' }))
+        expect(loc).toEqual({ start: 33, end: 39 })
+    })
+
+    it('falls back to the first occurrence without context', () => {
+        expect(locateChangeInText(text, change({ before: 'towards', after: 'toward' }))).toEqual({ start: 8, end: 14 })
+    })
+
+    it('ignores surrounding whitespace in the replacement', () => {
+        expect(locateChangeInText(text, change({ before: ' hill', after: ' hill ', context_before: 'toward the' }))).toEqual({ start: 19, end: 23 })
+    })
+
+    it('returns null when the replacement is not in the text', () => {
+        expect(locateChangeInText(text, change({ before: 'mountain', after: 'mountains' }))).toBeNull()
+    })
+
+    it('places a deletion between its contexts', () => {
+        const loc = locateChangeInText('The very end.', change({ before: ' really', after: '', context_before: 'The very', context_after: ' end.' }))
+        expect(loc).toEqual({ start: 8, end: 8 })
+    })
+
+    it('places an insertion at the end of the text', () => {
+        expect(locateChangeInText('It ended.', change({ type: 'INSERT_AT_END', after: '.' }))).toEqual({ start: 8, end: 9 })
+    })
+})
+
+describe('projectCoordinates', () => {
+    it('shifts a range past an earlier insertion', () => {
+        expect(projectCoordinates(9, 15, 'She said hello.', 'She then said hello.')).toEqual({ start: 14, end: 20 })
+    })
+
+    it('keeps a range before a later edit', () => {
+        expect(projectCoordinates(0, 3, 'She said hello.', 'She said hello, world.')).toEqual({ start: 0, end: 3 })
+    })
+
+    it('returns null when the range was deleted', () => {
+        expect(projectCoordinates(4, 9, 'She said hello.', 'She hello.')).toBeNull()
+    })
+})
+
+describe('projectChanges', () => {
+    it('moves every located change into the new text', () => {
+        const changes = [change({ before: 'towards', after: 'toward', loc: { start: 8, end: 14 } })]
+        const [moved] = projectChanges(changes, 'We went toward home.', 'So we went toward home.')
+        expect(moved.loc).toEqual({ start: 11, end: 17 })
+    })
+
+    it('searches again when projection fails', () => {
+        const changes = [change({ before: 'e-mail', after: 'email', context_after: ' arrived', loc: { start: 4, end: 9 } })]
+        const [moved] = projectChanges(changes, 'The email arrived.', 'An email arrived.')
+        expect(moved.loc).toEqual({ start: 3, end: 8 })
+    })
+})
@@ -0,0 +1,67 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { checkMeaningPreserved, meaningAction, meaningLimits } from '@/lib/rewrite/meaning'
+
+afterEach(() => { vi.unstubAllEnvs() })
+
+describe('checkMeaningPreserved', () => {
+    it('accepts Chicago edits: spelling, punctuation, capitalization and spelled-out numbers', () => {
+        const verdict = checkMeaningPreserved(
+            'We recieved 4 letters from paris -- all of them alright, towards the end.',
+            'We received four letters from Paris—all of them all right, toward the end.'
+        )
+        expect(verdict.violations).toEqual([])
+        expect(verdict.ok).toBe(true)
+    })
+
+    it('rejects a paraphrase', () => {
+        const verdict = checkMeaningPreserved(
+            'The committee postponed the vote because several members were absent.',
+            'Since many members were missing, the board delayed its decision.'
+        )
+        expect(verdict.ok).toBe(false)
+        expect(verdict.violations.some(v => v.includes('% of words changed'))).toBe(true)
+        expect(verdict.violations.some(v => v.startsWith('content words changed'))).toBe(true)
+    })
+
+    it('rejects a changed number', () => {
+        const verdict = checkMeaningPreserved('The bridge is 120 meters long.', 'The bridge is 210 meters long.')
+        expect(verdict.violations).toEqual(['numbers changed (120, 210)'])
+    })
+
+    it('accepts Chicago number edits: spelled-out compounds, ordinals and inclusive ranges', () => {
+        expect(checkMeaningPreserved('We have 25 cats.', 'We have twenty-five cats.').violations).toEqual([])
+        expect(checkMeaningPreserved('It opened on March 5th 2024 at last.', 'It opened on March 5, 2024, at last.').violations).toEqual([])
+        expect(checkMeaningPreserved('It is the 21st century.', 'It is the twenty-first century.').violations).toEqual([])
+        expect(checkMeaningPreserved('See pages 321-328.', 'See pages 321–28.').violations).toEqual([])
+        expect(checkMeaningPreserved('It cost 2,400 dollars.', 'It cost two thousand four hundred dollars.').violations).toEqual([])
+    })
+
+    it('still rejects a changed number written another way', () => {
+        expect(checkMeaningPreserved('We have 25 cats.', 'We have twenty-six cats.').violations).toEqual(['numbers changed (25, 26)'])
+        expect(checkMeaningPreserved('See pages 321-328.', 'See pages 321–29.').violations).toEqual(['numbers changed (328, 329)'])
+    })
+
+    it('rejects a changed name, but not one that only starts a sentence', () => {
+        expect(checkMeaningPreserved('We met Anna in Berlin.', 'We met Hanna in Berlin.').violations)
+            .toContain('proper nouns changed (Anna, Hanna)')
+        expect(checkMeaningPreserved('However we left.', 'However, we left.').ok).toBe(true)
+    })
+
+    it('applies the configured limits', () => {
+        const before = 'The red car stopped.'
+        const after = 'The blue car stopped.'
+        expect(checkMeaningPreserved(before, after).ok).toBe(true)
+        expect(checkMeaningPreserved(before, after, { ...meaningLimits(), maxContentWordChanges: 1 }).ok).toBe(false)
+    })
+})
+
+describe('configuration', () => {
+    it('reads limits and the action from the environment', () => {
+        vi.stubEnv('MEANING_MAX_NUMBER_CHANGES', '2')
+        vi.stubEnv('MEANING_GUARD_ACTION', 'flag')
+        expect(meaningLimits().maxNumberChanges).toBe(2)
+        expect(meaningAction()).toBe('flag')
+        vi.stubEnv('MEANING_GUARD_ACTION', 'anything')
+        expect(meaningAction()).toBe('reject')
+    })
+})
@@ -0,0 +1,152 @@
+import { afterAll, afterEach, describe, expect, it } from 'vitest'
+import { getDefaultProfile } from '@/lib/profiles'
+import { resetCircuits } from '@/lib/providers'
+import { PipelineMeta, rewriteDocument, rewriteParagraph, splitParagraphs } from '@/lib/rewrite/pipeline'
+import { getRateLimitStatus } from '@/lib/ratelimit'
+import { GoldenResult, expectHighlightsInPlace, goldenResult, loadGolden } from './golden'
+
+type Input = { text: string; format?: 'plain' | 'markdown' }
+
+const golden = loadGolden<Input, GoldenResult>('pipeline.json')
+afterAll(golden.save)
+
+afterEach(() => {
+    delete process.env.MOCK_FAULTS
+    resetCircuits()
+})
+
+function newMeta(): PipelineMeta {
+    return { provider: 'unknown', model: 'unknown', calls: [], iterations: 0 }
+}
+
+async function rewrite(input: Input, meta = newMeta()) {
+    const opts = { anonId: 'test', userId: null, mode: 'mock', provider: 'mock', profile: getDefaultProfile(), format: input.format || 'plain', cacheBypass: true, meta }
+    const outcome = await rewriteParagraph(input.text, opts)
+    return goldenResult(outcome.data)
+}
+
+describe('rewriteParagraph with the mock provider', () => {
+    for (const c of golden.cases) {
+        it(c.name, async () => {
+            const result = await rewrite(c.input)
+            expectHighlightsInPlace(result)
+            golden.check(c, result)
+        })
+    }
+
+    for (const c of golden.cases) {
+        it(`is idempotent: ${c.name}`, async () => {
+            const first = await rewrite(c.input)
+            const again = await rewrite({ ...c.input, text: first.revised_text })
+            expect(again).toEqual({ revised_text: first.revised_text, changes: [] })
+        })
+    }
+
+    it('stops once a pass changes nothing', async () => {
+        const meta = newMeta()
+        await rewrite({ text: 'We walked towards the station.' }, meta)
+        expect(meta.iterations).toBe(2)
+        expect(meta.calls).toHaveLength(2)
+        expect(meta.provider).toBe('mock')
+    })
+})
+
+describe('rewriteDocument', () => {
+    it('shifts each paragraph into document coordinates', async () => {
+        const meta = newMeta()
+        const opts = { anonId: 'test', userId: null, mode: 'mock', provider: 'mock', profile: getDefaultProfile(), format: 'plain' as const, cacheBypass: true, meta }
+        const outcome = await rewriteDocument('We walked towards it.\n\nShe sent an e-mail -- twice.', opts)
+        const result = goldenResult(outcome.data)
+        expect(result.revised_text).toBe('We walked toward it.\n\nShe sent an email—twice.')
+        expect(result.changes.map(c => c.after)).toEqual(['toward', '—', 'email'])
+        expectHighlightsInPlace(result)
+        expect(outcome.paragraphs).toBe(2)
+    })
+
+    it('splits on blank lines only, keeping single line breaks inside a paragraph', () => {
+        const { leading, paragraphs } = splitParagraphs('\nRoses are red,\nviolets are blue.\n \n\nThe end.\n')
+        expect(leading).toBe('\n')
+        expect(paragraphs).toEqual([
+            { text: 'Roses are red,\nviolets are blue.', separator: '\n \n\n' },
+            { text: 'The end.', separator: '\n' },
+        ])
+    })
+
+    describe('rate limits', () => {
+        afterEach(() => { delete process.env.COUNT_MOCK_AS_EXPENSIVE })
+
+        it('charges one unit per paragraph the cache cannot serve', async () => {
+            process.env.COUNT_MOCK_AS_EXPENSIVE = '1'
+            const opts = { anonId: 'document-visitor', userId: null, mode: 'mock', provider: 'mock', profile: getDefaultProfile(), format: 'plain' as const, cacheBypass: false, meta: newMeta() }
+            await rewriteParagraph('The first paragraph is cached already.', opts)
+            const status = () => getRateLimitStatus('document-visitor').then(s => s!.find(q => q.scope === 'user_day')!.remaining)
+            expect(await status()).toBe(19)
+
+            // The short window is spent, so only a cache-served document can run now
+            await rewriteDocument('The first paragraph is cached already.', { ...opts, meta: newMeta() })
+            expect(await status()).toBe(19)
+            await expect(rewriteDocument('The first paragraph is cached already.\n\nA new one.', { ...opts, meta: newMeta() }))
+                .rejects.toMatchObject({ status: 429, json: { scope: 'user_30s' } })
+        })
+
+        it('runs a document over the daily quota whole, using up the rest of the day', async () => {
+            process.env.COUNT_MOCK_AS_EXPENSIVE = '1'
+            const text = Array.from({ length: 21 }, (_, i) => `Paragraph number ${i + 1} walks towards the end.`).join('\n\n')
+            const opts = { anonId: 'long-document-visitor', userId: null, mode: 'mock', provider: 'mock', profile: getDefaultProfile(), format: 'plain' as const, cacheBypass: false, meta: newMeta() }
+            const outcome = await rewriteDocument(text, opts)
+            expect(outcome.paragraphs).toBe(21)
+            expect(outcome.data.revised_text).not.toContain('towards')
+            const status = await getRateLimitStatus('long-document-visitor')
+            expect(status!.find(q => q.scope === 'user_day')!.remaining).toBe(0)
+        })
+    })
+})
+
+describe('style profiles', () => {
+    it('leaves the glossary terms alone, in the cheap rules and at the model', async () => {
+        const profile = { ...getDefaultProfile(), id: 'glossary-house', glossary: ['Internet Archive', 'e-mail'] }
+        const opts = { anonId: 'test', userId: null, mode: 'mock', provider: 'mock', profile, format: 'plain' as const, cacheBypass: true, meta: newMeta() }
+        const outcome = await rewriteParagraph('We searched the Internet Archive towards noon and sent an e-mail -- twice.', opts)
+        const result = goldenResult(outcome.data)
+        expect(result.revised_text).toBe('We searched the Internet Archive toward noon and sent an e-mail—twice.')
+        expect(result.changes.map(c => c.after)).toEqual(['—', 'toward'])
+        expectHighlightsInPlace(result)
+    })
+})
+
+describe('provider faults', () => {
+    const text = 'I walked towards the station, which was alright.'
+
+    it('repairs malformed JSON', async () => {
+        process.env.MOCK_FAULTS = 'malformed_json'
+        const result = await rewrite({ text })
+        expect(result.revised_text).toBe('I walked toward the station, which was all right.')
+        expect(result.changes).toHaveLength(2)
+    })
+
+    it('reports edits the model left out as uncertain', async () => {
+        process.env.MOCK_FAULTS = 'unreported_edit'
+        const result = await rewrite({ text })
+        expectHighlightsInPlace(result)
+        expect(result.changes.map(c => [c.type, c.after])).toEqual([['spelling', 'all right'], ['other', 'toward']])
+    })
+
+    it('drops changes the model did not make', async () => {
+        process.env.MOCK_FAULTS = 'phantom_change'
+        const result = await rewrite({ text })
+        expect(result.changes.map(c => c.after)).toEqual(['toward', 'all right'])
+    })
+
+    it('fails with invalid_model_output when the answer is never JSON', async () => {
+        process.env.MOCK_FAULTS = 'non_json'
+        await expect(rewrite({ text })).rejects.toMatchObject({ status: 502, json: { error: { type: 'invalid_model_output' } } })
+    })
+
+    it('fails with upstream_error when the provider is rate limited', async () => {
+        process.env.MOCK_FAULTS = 'rate_limit'
+        await expect(rewrite({ text })).rejects.toMatchObject({
+            status: 502,
+            json: { error: { type: 'upstream_error' }, attempts: [{ provider: 'mock', error: '429 Too Many Requests (simulated)' }] },
+        })
+    })
+})
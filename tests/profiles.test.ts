@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest'
+import { getProfile, profileFingerprint } from '@/lib/profiles'
+import { buildSystemPrompt } from '@/lib/rewrite/llm'
+import { generateCacheKey } from '@/lib/rewrite/pipeline'
+
+describe('profileFingerprint', () => {
+    it('is a SHA-256 of the whole profile', () => {
+        const profile = getProfile('cmos17')!
+        expect(profileFingerprint(profile)).toMatch(/^cmos17:[0-9a-f]{64}$/)
+        expect(profileFingerprint({ ...profile })).toBe(profileFingerprint(profile))
+    })
+
+    it('separates profiles that differ only in their glossary', () => {
+        const base = { id: 'house', name: 'House', edition: 17 as const }
+        const a = { ...base, glossary: ['iPhone'] }
+        const b = { ...base, glossary: ['iPhones'] }
+        expect(profileFingerprint(a)).not.toBe(profileFingerprint(b))
+        expect(generateCacheKey('Text.', 'mock', 'mock', a)).not.toBe(generateCacheKey('Text.', 'mock', 'mock', b))
+    })
+})
+
+describe('buildSystemPrompt', () => {
+    it('spells out the house threshold for numbers', () => {
+        const profile = { id: 'house', name: 'House', edition: 17 as const, overrides: { spellOutNumbersThrough: 20 } }
+        expect(buildSystemPrompt(profile)).toContain('Spell out whole numbers from zero through twenty;')
+    })
+})
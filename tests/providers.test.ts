@@ -0,0 +1,134 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { LLMCompletion, LLMProvider, isCircuitOpen, registerProvider, resetCircuits, rewriteWithFallback } from '@/lib/providers'
+
+// A provider driven by flags: `fail` throws, `invalid` answers with junk, `hold` keeps calls pending until released
+function scripted(id: string) {
+    const pending: ((value: void) => void)[] = []
+    const provider = {
+        id,
+        model: `${id}-model`,
+        timeoutMs: 1000,
+        calls: 0,
+        fail: false,
+        invalid: false,
+        hold: false,
+        isConfigured: () => true,
+        async complete({ text }: { text: string }): Promise<LLMCompletion> {
+            provider.calls++
+            if (provider.hold) await new Promise<void>(resolve => pending.push(resolve))
+            if (provider.fail) throw new Error('503 Service Unavailable')
+            if (provider.invalid) return { text: 'not json' }
+            return { text: JSON.stringify({ revised_text: text, changes: [] }) }
+        },
+        release() { pending.splice(0).forEach(resolve => resolve()) },
+    }
+    registerProvider(provider as LLMProvider)
+    return provider
+}
+
+const request = { text: 'Hello there.', systemPrompt: 'Edit.' }
+
+async function failUntilOpen(id: string, chain: string[]) {
+    for (let i = 0; i < 3; i++) await rewriteWithFallback(request, chain).catch(() => {})
+    expect(isCircuitOpen(id)).toBe(true)
+}
+
+let cooldown: string | undefined
+
+beforeEach(() => {
+    cooldown = process.env.PROVIDER_BREAKER_COOLDOWN_MS
+    process.env.PROVIDER_BREAKER_COOLDOWN_MS = '20'
+})
+
+afterEach(() => {
+    if (cooldown === undefined) delete process.env.PROVIDER_BREAKER_COOLDOWN_MS
+    else process.env.PROVIDER_BREAKER_COOLDOWN_MS = cooldown
+    resetCircuits()
+})
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+describe('rewriteWithFallback', () => {
+    it('falls back to the next provider when one fails', async () => {
+        const primary = scripted('primary-a')
+        scripted('backup-a')
+        primary.fail = true
+        const answer = await rewriteWithFallback(request, ['primary-a', 'backup-a'])
+        expect(answer.provider).toBe('backup-a')
+        expect(answer.data.revised_text).toBe(request.text)
+    })
+
+    it('reports invalid_model_output when every provider answered with unusable output', async () => {
+        const only = scripted('invalid-a')
+        only.invalid = true
+        await expect(rewriteWithFallback(request, ['invalid-a'])).rejects.toMatchObject({ status: 502, json: { error: { type: 'invalid_model_output' } } })
+        expect(only.calls).toBe(2) // one retry with the validation errors
+    })
+
+    it('reports upstream_error and lists every attempt when nobody answered', async () => {
+        const down = scripted('down-a')
+        down.fail = true
+        const error = await rewriteWithFallback(request, ['down-a', 'missing']).catch(e => e)
+        expect(error.json.error.type).toBe('upstream_error')
+        expect(error.json.attempts.map((a: any) => a.error)).toEqual(['503 Service Unavailable', 'unknown provider'])
+    })
+})
+
+describe('circuit breaker', () => {
+    it('opens after consecutive failures and skips the provider', async () => {
+        const flaky = scripted('flaky-b')
+        flaky.fail = true
+        await failUntilOpen('flaky-b', ['flaky-b'])
+        const error = await rewriteWithFallback(request, ['flaky-b']).catch(e => e)
+        expect(error.json.attempts).toEqual([{ provider: 'flaky-b', error: 'circuit open' }])
+        expect(flaky.calls).toBe(3)
+    })
+
+    it('closes again when the trial call after the cooldown succeeds', async () => {
+        const flaky = scripted('flaky-c')
+        flaky.fail = true
+        await failUntilOpen('flaky-c', ['flaky-c'])
+        await sleep(30)
+        flaky.fail = false
+        await expect(rewriteWithFallback(request, ['flaky-c'])).resolves.toMatchObject({ provider: 'flaky-c' })
+        expect(isCircuitOpen('flaky-c')).toBe(false)
+    })
+
+    it('re-opens at once when the trial call fails', async () => {
+        const flaky = scripted('flaky-d')
+        flaky.fail = true
+        await failUntilOpen('flaky-d', ['flaky-d'])
+        await sleep(30)
+        await rewriteWithFallback(request, ['flaky-d']).catch(() => {})
+        expect(flaky.calls).toBe(4)
+        expect(isCircuitOpen('flaky-d')).toBe(true)
+    })
+
+    it('lets a single trial call through while half-open and keeps everyone else out until it ends', async () => {
+        const flaky = scripted('flaky-e')
+        scripted('backup-e')
+        flaky.fail = true
+        await failUntilOpen('flaky-e', ['flaky-e', 'backup-e'])
+        await sleep(30)
+
+        flaky.fail = false
+        flaky.hold = true
+        const trial = rewriteWithFallback(request, ['flaky-e', 'backup-e'])
+        await sleep(0)
+        const others = await Promise.all([1, 2, 3].map(() => rewriteWithFallback(request, ['flaky-e', 'backup-e'])))
+        expect(others.map(a => a.provider)).toEqual(['backup-e', 'backup-e', 'backup-e'])
+        expect(flaky.calls).toBe(4)
+
+        flaky.hold = false
+        flaky.release()
+        await expect(trial).resolves.toMatchObject({ provider: 'flaky-e' })
+        await expect(rewriteWithFallback(request, ['flaky-e', 'backup-e'])).resolves.toMatchObject({ provider: 'flaky-e' })
+    })
+
+    it('does not trip on unusable output', async () => {
+        const chatty = scripted('chatty-f')
+        chatty.invalid = true
+        for (let i = 0; i < 4; i++) await rewriteWithFallback(request, ['chatty-f']).catch(() => {})
+        expect(isCircuitOpen('chatty-f')).toBe(false)
+    })
+})
@@ -0,0 +1,45 @@
+import { describe, expect, it, vi } from 'vitest'
+import { consumeExpensiveCall, getRateLimitStatus } from '@/lib/ratelimit'
+
+// Defaults: RATE_USER_30S=1, RATE_USER_RPD=20, RATE_GLOBAL_RPM=9, in memory
+
+function remaining(status: Awaited<ReturnType<typeof getRateLimitStatus>>, scope: string) {
+    return status!.find(s => s.scope === scope)!.remaining
+}
+
+describe('consumeExpensiveCall', () => {
+    it('charges the short windows per request and the daily quota per unit', async () => {
+        expect(await consumeExpensiveCall('units-visitor', 5)).toMatchObject({ ok: true, remainingToday: 15 })
+        const status = await getRateLimitStatus('units-visitor')
+        expect(remaining(status, 'user_30s')).toBe(0)
+        expect(remaining(status, 'user_day')).toBe(15)
+    })
+
+    it('refuses a request over any limit without charging the others', async () => {
+        expect((await consumeExpensiveCall('burst-visitor')).ok).toBe(true)
+        expect(await consumeExpensiveCall('burst-visitor')).toMatchObject({ ok: false, scope: 'user_30s' })
+        expect(remaining(await getRateLimitStatus('burst-visitor'), 'user_day')).toBe(19)
+    })
+
+    it('caps a charge over the daily quota at what is left, then refuses', async () => {
+        expect(await consumeExpensiveCall('big-document-visitor', 21)).toMatchObject({ ok: true, remainingToday: 0 })
+        const status = await getRateLimitStatus('big-document-visitor')
+        expect(remaining(status, 'user_day')).toBe(0)
+        expect(remaining(status, 'user_30s')).toBe(0)
+    })
+
+    it('refuses once the daily quota is used up', async () => {
+        vi.useFakeTimers({ now: new Date('2030-01-15T12:00:00Z') })
+        expect((await consumeExpensiveCall('spent-visitor', 20)).ok).toBe(true)
+        vi.advanceTimersByTime(31000) // past the 30-second window
+        const result = await consumeExpensiveCall('spent-visitor')
+        vi.useRealTimers()
+        expect(result).toMatchObject({ ok: false, scope: 'user_day' })
+        expect(result.retryAfterSeconds).toBeGreaterThan(0)
+    })
+
+    it('does not charge when only peeking', async () => {
+        await getRateLimitStatus('peeking-visitor')
+        expect(remaining(await getRateLimitStatus('peeking-visitor'), 'user_day')).toBe(20)
+    })
+})
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest'
+import { Change } from '@/types'
+import { editedRanges, mergeRecheck, recheckText, reprojectChanges, splitRecheckResult } from '@/lib/recheck'
+
+function change(id: string, after: string, start: number): Change {
+    return { change_id: id, type: 'other', severity: 'recommended', reason: '', before: '', after, context_before: '', context_after: '', loc: { start, end: start + after.length } }
+}
+
+const checked = 'We walked toward the station. It was all right. Then it rained.'
+
+describe('reprojectChanges', () => {
+    const changes = [change('c1', 'toward', 10), change('c2', 'all right', 37)]
+
+    it('moves changes past an edit', () => {
+        const edited = 'So we walked toward the station. It was all right. Then it rained.'
+        expect(reprojectChanges(changes, checked, edited).map(c => c.loc)).toEqual([{ start: 13, end: 19 }, { start: 40, end: 49 }])
+    })
+
+    it('unlocates a change the edit rewrote', () => {
+        const edited = 'We walked toward the station. It was fine. Then it rained.'
+        expect(reprojectChanges(changes, checked, edited).map(c => c.loc)).toEqual([{ start: 10, end: 16 }, undefined])
+    })
+})
+
+describe('editedRanges', () => {
+    it('returns the edited sentence', () => {
+        const current = 'We walked toward the station. It was alright. Then it rained.'
+        const ranges = editedRanges(checked, current)
+        expect(ranges.map(r => current.slice(r.start, r.end))).toEqual(['It was alright.'])
+    })
+
+    it('returns each edited sentence, merging neighbors', () => {
+        const current = 'We walked towards the station. It was all right. Then it poured... and rained.'
+        const ranges = editedRanges(checked, current)
+        expect(ranges.map(r => current.slice(r.start, r.end))).toEqual(['We walked towards the station.', 'Then it poured... and rained.'])
+    })
+
+    it('splits at line breaks', () => {
+        const current = 'We walked toward the station,\n\nit was all right. Then it rained.'
+        expect(editedRanges(checked, current).map(r => current.slice(r.start, r.end))).toEqual(['We walked toward the station,', 'it was all right.'])
+    })
+
+    it('finds nothing when nothing changed', () => {
+        expect(editedRanges(checked, checked)).toEqual([])
+    })
+})
+
+describe('re-check round trip', () => {
+    it('splices re-checked sentences and their changes into the result', () => {
+        const current = { revised_text: 'We walked toward the station. It was alright. Then it rained -- hard.', changes: [change('c1', 'toward', 10)] }
+        const ranges = editedRanges(checked, current.revised_text)
+        expect(recheckText(current.revised_text, ranges)).toBe('It was alright.\n\nThen it rained -- hard.')
+
+        const response = { revised_text: 'It was all right.\n\nThen it rained—hard.', changes: [change('c1', 'all right', 7), change('c2', '—', 33)] }
+        const pieces = splitRecheckResult(response, ranges.length)!
+        expect(pieces.map(p => p.changes.map(c => c.loc))).toEqual([[{ start: 7, end: 16 }], [{ start: 14, end: 15 }]])
+
+        const merged = mergeRecheck(current, ranges, pieces)
+        expect(merged.revised_text).toBe('We walked toward the station. It was all right. Then it rained—hard.')
+        expect(merged.changes.map(c => [c.change_id, merged.revised_text.slice(c.loc!.start, c.loc!.end)])).toEqual([
+            ['c1', 'toward'], ['c2', 'all right'], ['c3', '—'],
+        ])
+    })
+
+    it('refuses a result whose paragraphs no longer line up', () => {
+        expect(splitRecheckResult({ revised_text: 'One paragraph only.', changes: [] }, 2)).toBeNull()
+    })
+})
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest'
+import { htmlToMarkdown, markdownToHtml, markdownToPlainText, styledRuns } from '@/lib/richtext'
+
+describe('htmlToMarkdown', () => {
+    it('keeps italics, bold and small caps', () => {
+        expect(htmlToMarkdown('<p>Read <em>Ulysses</em> and <b>this</b> by <span style="font-variant: small-caps">Joyce</span>.</p>'))
+            .toBe('Read *Ulysses* and **this** by [Joyce]{.smallcaps}.')
+    })
+
+    it('closes and reopens spans around a line break', () => {
+        expect(htmlToMarkdown('<em>a<br>b</em> c')).toBe('*a*\n*b* c')
+        expect(htmlToMarkdown('<strong><em>one<br/>two</em></strong>')).toBe('***one***\n***two***')
+        expect(styledRuns(htmlToMarkdown('<em>a<br>b</em>')).filter(r => r.text.trim()).every(r => r.italic)).toBe(true)
+    })
+
+    it('drops scripts and turns blocks into paragraphs', () => {
+        expect(htmlToMarkdown('<div>One</div><script>alert(1)</script><p>Two</p>')).toBe('One\n\nTwo')
+    })
+
+    it('escapes Markdown characters in the text', () => {
+        expect(htmlToMarkdown('<p>2 * 3 [x]</p>')).toBe('2 \\* 3 \\[x\\]')
+    })
+})
+
+describe('markdown output', () => {
+    it('renders the inline subset as HTML and as plain text', () => {
+        expect(markdownToHtml('A *b* **c**')).toContain('<em>b</em>')
+        expect(markdownToPlainText('A *b* **c** [d]{.smallcaps}')).toBe('A b c d')
+    })
+})
@@ -0,0 +1,123 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { NextRequest } from 'next/server'
+import { POST } from '@/app/api/rewrite/route'
+import { registerProfile } from '@/lib/profiles'
+import { resetCircuits } from '@/lib/providers'
+import { mockProvider } from '@/lib/providers/mock'
+
+function request(body: unknown, headers: Record<string, string> = {}) {
+    return new NextRequest('http://localhost/api/rewrite', {
+        method: 'POST',
+        headers: { 'content-type': 'application/json', ...headers },
+        body: typeof body === 'string' ? body : JSON.stringify(body),
+    })
+}
+
+afterEach(() => {
+    delete process.env.MOCK_FAULTS
+    delete process.env.COUNT_MOCK_AS_EXPENSIVE
+    process.env.MOCK_LATENCY_MS = '0'
+    process.env.DISABLE_PASSWORD_GATE = '1'
+    resetCircuits()
+    vi.restoreAllMocks()
+})
+
+describe('POST /api/rewrite', () => {
+    it('returns the revised text, changes and provider headers', async () => {
+        const resp = await POST(request({ text: 'We walked towards the station.' }))
+        expect(resp.status).toBe(200)
+        expect(resp.headers.get('X-Provider')).toBe('mock')
+        expect(resp.headers.get('X-Cache')).toBe('MISS')
+        expect(resp.cookies.get('anon_id')?.value).toBeTruthy()
+        const body = await resp.json()
+        expect(body.revised_text).toBe('We walked toward the station.')
+        expect(body.changes).toMatchObject([{ change_id: 'c1', before: 'towards', after: 'toward', loc: { start: 10, end: 16 } }])
+    })
+
+    describe('rejects bad requests', () => {
+        const cases: [string, unknown, string][] = [
+            ['a body that is not JSON', '{"text": ', 'Request body must be a JSON object'],
+            ['a missing text', {}, 'Invalid text'],
+            ['an empty text', { text: '' }, 'Invalid text'],
+            ['a text over the paragraph limit', { text: 'a'.repeat(4001) }, 'Invalid text'],
+            ['an unknown format', { text: 'Hello.', format: 'rtf' }, 'format must be one of plain, markdown, html'],
+            ['an unknown profile', { text: 'Hello.', profile: 'apa7' }, 'Unknown style profile: apa7'],
+        ]
+        for (const [name, body, message] of cases) {
+            it(name, async () => {
+                const resp = await POST(request(body))
+                expect(resp.status).toBe(400)
+                expect(await resp.json()).toEqual({ error: { type: 'invalid_request', message } })
+            })
+        }
+    })
+
+    it('applies the requested style profile, glossary included', async () => {
+        registerProfile({ id: 'route-house', name: 'Route house', edition: 18, glossary: ['Internet Archive'] })
+        const complete = vi.spyOn(mockProvider, 'complete')
+        const resp = await POST(request({ text: 'The Internet Archive grew towards the Internet age.', profile: 'route-house' }))
+        expect(resp.status).toBe(200)
+        expect((await resp.json()).revised_text).toBe('The Internet Archive grew toward the internet age.')
+        expect(complete.mock.calls[0][0].systemPrompt).toContain('"Internet Archive"')
+    })
+
+    it('requires a session when authentication is on', async () => {
+        process.env.DISABLE_PASSWORD_GATE = '0'
+        const resp = await POST(request({ text: 'Hello.' }))
+        expect(resp.status).toBe(401)
+        expect((await resp.json()).error.type).toBe('unauthorized')
+    })
+
+    it('serves a repeated request from the cache', async () => {
+        const body = { text: 'The Internet grew amongst users.' }
+        const first = await POST(request(body))
+        const second = await POST(request(body))
+        expect(first.headers.get('X-Cache')).toBe('MISS')
+        expect(second.headers.get('X-Cache')).toBe('HIT')
+        expect(second.headers.get('X-Provider')).toBe('cache')
+        expect(await second.json()).toEqual(await first.json())
+
+        const bypass = await POST(request(body, { 'x-cache-bypass': '1' }))
+        expect(bypass.headers.get('X-Cache')).toBe('MISS')
+    })
+
+    it('runs concurrent identical requests once', async () => {
+        process.env.MOCK_LATENCY_MS = '50'
+        const complete = vi.spyOn(mockProvider, 'complete')
+        const body = { text: 'She sent an e-mail, then waited.' }
+        const [a, b] = await Promise.all([POST(request(body)), POST(request(body))])
+        expect([a.headers.get('X-Dedupe'), b.headers.get('X-Dedupe')]).toContain('HIT')
+        expect(await a.json()).toEqual(await b.json())
+        // One pipeline run: the edit pass and the pass that confirms nothing is left
+        expect(complete).toHaveBeenCalledTimes(2)
+    })
+
+    it('reports unusable model output as a 502', async () => {
+        process.env.MOCK_FAULTS = 'non_json'
+        const resp = await POST(request({ text: 'Fault injection, non-JSON answer.' }))
+        expect(resp.status).toBe(502)
+        const body = await resp.json()
+        expect(body.error.type).toBe('invalid_model_output')
+        expect(body.attempts).toMatchObject([{ provider: 'mock', error: 'invalid output' }])
+    })
+
+    it('reports a rate-limited provider as a 502', async () => {
+        process.env.MOCK_FAULTS = 'rate_limit'
+        const resp = await POST(request({ text: 'Fault injection, provider 429.' }))
+        expect(resp.status).toBe(502)
+        expect((await resp.json()).error.type).toBe('upstream_error')
+    })
+
+    it('enforces the per-visitor rate limit before calling the model', async () => {
+        process.env.COUNT_MOCK_AS_EXPENSIVE = '1'
+        const headers = { cookie: 'anon_id=rate-limited-visitor' }
+        const first = await POST(request({ text: 'First request of the window.' }, headers))
+        expect(first.status).toBe(200)
+        const complete = vi.spyOn(mockProvider, 'complete')
+        const second = await POST(request({ text: 'Second request of the window.' }, headers))
+        expect(second.status).toBe(429)
+        expect(second.headers.get('Retry-After')).toBeTruthy()
+        expect(await second.json()).toMatchObject({ error: 'Rate limit exceeded', scope: 'user_30s' })
+        expect(complete).not.toHaveBeenCalled()
+    })
+})
@@ -0,0 +1,92 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { NextRequest } from 'next/server'
+import { RewriteStreamEvent } from '@/types'
+import { resetCircuits } from '@/lib/providers'
+import { getUsageStore } from '@/lib/usage'
+
+// Lets a test make the steps that follow a finished rewrite fail: metering and the response headers
+const failLate = vi.hoisted(() => ({ meter: false, headers: false }))
+vi.mock('@/lib/rewrite/http', async (importOriginal) => {
+    const actual = await importOriginal<typeof import('@/lib/rewrite/http')>()
+    return {
+        ...actual,
+        meterRewrite: async (...args: Parameters<typeof actual.meterRewrite>) => {
+            if (failLate.meter && args[3]) throw new Error('metering failed')
+            return actual.meterRewrite(...args)
+        },
+        outcomeHeaders: (...args: Parameters<typeof actual.outcomeHeaders>) => {
+            if (failLate.headers) throw new Error('header construction failed')
+            return actual.outcomeHeaders(...args)
+        },
+    }
+})
+
+import { POST } from '@/app/api/rewrite/stream/route'
+
+function request(body: unknown, headers: Record<string, string> = {}) {
+    return new NextRequest('http://localhost/api/rewrite/stream', {
+        method: 'POST',
+        headers: { 'content-type': 'application/json', ...headers },
+        body: JSON.stringify(body),
+    })
+}
+
+async function events(resp: Response): Promise<RewriteStreamEvent[]> {
+    return (await resp.text()).split('\n').filter(Boolean).map(line => JSON.parse(line))
+}
+
+afterEach(() => {
+    delete process.env.MOCK_FAULTS
+    failLate.meter = false
+    failLate.headers = false
+    resetCircuits()
+})
+
+describe('POST /api/rewrite/stream', () => {
+    it('streams progress, then a final done event', async () => {
+        const resp = await POST(request({ text: 'We walked towards the station -- slowly.' }))
+        expect(resp.headers.get('Content-Type')).toContain('application/x-ndjson')
+        const all = await events(resp)
+        expect(all.slice(0, -1).every(e => e.type === 'progress')).toBe(true)
+        expect(all.map(e => e.type)).toContain('progress')
+        const done = all[all.length - 1]
+        expect(done).toMatchObject({ type: 'done', result: { revised_text: 'We walked toward the station—slowly.' }, headers: { 'X-Provider': 'mock' } })
+    })
+
+    it('ends with a single error event when the rewrite fails', async () => {
+        process.env.MOCK_FAULTS = 'non_json'
+        const all = await events(await POST(request({ text: 'The model answers in prose.' })))
+        expect(all.filter(e => e.type === 'done')).toHaveLength(0)
+        expect(all[all.length - 1]).toMatchObject({ type: 'error', status: 502, body: { error: { type: 'invalid_model_output' } } })
+    })
+
+    for (const step of ['meter', 'headers'] as const) {
+        it(`sends no done event when the ${step} step fails`, async () => {
+            failLate[step] = true
+            const all = await events(await POST(request({ text: `A late failure in ${step}.` })))
+            expect(all.filter(e => e.type === 'done')).toHaveLength(0)
+            expect(all.filter(e => e.type === 'error')).toHaveLength(1)
+            expect(all[all.length - 1]).toMatchObject({ type: 'error', status: 500 })
+        })
+    }
+
+    it('finishes and meters the rewrite when the client disconnects', async () => {
+        const startedAt = Date.now()
+        vi.spyOn(console, 'log').mockImplementation(() => {})
+        const resp = await POST(request({ text: 'The reader left towards the end.' }, { cookie: 'anon_id=departed-visitor' }))
+        const reader = resp.body!.getReader()
+        await reader.read()
+        await reader.cancel()
+        await vi.waitFor(async () => {
+            const records = (await getUsageStore().list(startedAt, Date.now() + 1)).filter(r => r.anonId === 'departed-visitor')
+            expect(records).toMatchObject([{ status: 'ok' }])
+        })
+        vi.restoreAllMocks()
+    })
+
+    it('answers validation errors with plain JSON', async () => {
+        const resp = await POST(request({ text: '' }))
+        expect(resp.status).toBe(400)
+        expect((await resp.json()).error.message).toBe('Invalid text')
+    })
+})
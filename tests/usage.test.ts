@@ -0,0 +1,103 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { NextRequest } from 'next/server'
+import { POST } from '@/app/api/rewrite/route'
+import { UsageRecord, estimateCost, getUsageStore, recordUsage, summarizeUsage } from '@/lib/usage'
+import { createMemoryUsageStore } from '@/lib/usage/memory'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+function usageRecord(overrides: Partial<UsageRecord>): UsageRecord {
+    return {
+        timestamp: Date.UTC(2026, 0, 15, 12), anonId: 'anon-1', provider: 'gemini', model: 'gemini-2.0-flash',
+        status: 'ok', cacheStatus: 'MISS', paragraphs: 1, iterations: 1, calls: [],
+        inputTokens: 0, outputTokens: 0, costUsd: 0, latencyMs: 100,
+        ...overrides,
+    }
+}
+
+const call = (provider: string, model: string, costUsd: number) => ({ provider, model, inputTokens: 1000, outputTokens: 500, costUsd })
+
+afterEach(() => {
+    vi.unstubAllEnvs()
+    vi.restoreAllMocks()
+})
+
+describe('estimateCost', () => {
+    it('prices tokens per million, matching dated model names by prefix', () => {
+        expect(estimateCost('gpt-4o-mini', 1_000_000, 1_000_000)).toBeCloseTo(0.75)
+        expect(estimateCost('gpt-4o-mini-2024-07-18', 1_000_000, 0)).toBeCloseTo(0.15)
+        expect(estimateCost('unknown-model', 1_000_000, 1_000_000)).toBe(0)
+    })
+
+    it('takes overrides from MODEL_PRICES', () => {
+        vi.stubEnv('MODEL_PRICES', '{"house-model": [1, 2]}')
+        expect(estimateCost('house-model', 1_000_000, 1_000_000)).toBeCloseTo(3)
+    })
+})
+
+describe('summarizeUsage', () => {
+    it('totals requests by day, provider and visitor', () => {
+        const records = [
+            usageRecord({ calls: [call('groq', 'llama-3.3-70b-versatile', 0.002), call('gemini', 'gemini-2.0-flash', 0.001)], costUsd: 0.003, inputTokens: 2000, outputTokens: 1000 }),
+            usageRecord({ anonId: 'anon-2', userId: 'ada', calls: [call('gemini', 'gemini-2.0-flash', 0.001)], costUsd: 0.001, latencyMs: 300 }),
+            usageRecord({ timestamp: Date.UTC(2026, 0, 16, 9), provider: 'cache', cacheStatus: 'HIT', latencyMs: 2 }),
+            usageRecord({ timestamp: Date.UTC(2026, 0, 16, 10), status: 'error', calls: [call('gemini', 'gemini-2.0-flash', 0.001)], costUsd: 0.001 }),
+        ]
+        const report = summarizeUsage(records)
+        expect(report.totals).toMatchObject({ requests: 4, llmCalls: 4, errors: 1, cacheHits: 1, cacheHitRate: 0.25, avgLatencyMs: 126 })
+        expect(report.totals.costUsd).toBeCloseTo(0.005)
+        expect(report.daily.map(d => [d.date, d.requests, d.cacheHits])).toEqual([['2026-01-16', 2, 1], ['2026-01-15', 2, 0]])
+        // A fallback is charged to the provider that spent the tokens
+        expect(report.byProvider.map(p => [p.provider, p.llmCalls])).toEqual([['gemini', 3], ['groq', 1]])
+        expect(report.topUsers.map(u => [u.id, u.signedIn, u.requests])).toEqual([['anon-1', false, 3], ['ada', true, 1]])
+    })
+})
+
+describe('memory usage store', () => {
+    it('lists records in a time range and keeps only the newest', async () => {
+        const store = createMemoryUsageStore(2)
+        for (const day of [1, 2, 3]) await store.record(usageRecord({ timestamp: day * DAY_MS, anonId: `day-${day}` }))
+        expect((await store.list(0, 10 * DAY_MS)).map(r => r.anonId)).toEqual(['day-2', 'day-3'])
+        expect((await store.list(3 * DAY_MS, 4 * DAY_MS)).map(r => r.anonId)).toEqual(['day-3'])
+    })
+})
+
+describe('recordUsage', () => {
+    it('prices each call and stores the totals', async () => {
+        const timestamp = Date.UTC(2030, 5, 1)
+        await recordUsage({
+            timestamp, anonId: 'priced-visitor', provider: 'openai', model: 'gpt-4o', status: 'ok', cacheStatus: 'MISS',
+            paragraphs: 1, iterations: 2, latencyMs: 10,
+            calls: [{ provider: 'openai', model: 'gpt-4o', inputTokens: 1_000_000, outputTokens: 100_000 }, { provider: 'openai', model: 'gpt-4o', inputTokens: 0, outputTokens: 0 }],
+        })
+        const [record] = await getUsageStore().list(timestamp, timestamp + 1)
+        expect(record).toMatchObject({ anonId: 'priced-visitor', inputTokens: 1_000_000, outputTokens: 100_000 })
+        expect(record.costUsd).toBeCloseTo(3.5)
+        expect(record.calls[0].costUsd).toBeCloseTo(3.5)
+    })
+
+    it('never fails the rewrite when the store does', async () => {
+        vi.spyOn(getUsageStore(), 'record').mockRejectedValue(new Error('disk full'))
+        vi.spyOn(console, 'error').mockImplementation(() => {})
+        await expect(recordUsage({
+            timestamp: Date.now(), anonId: 'x', provider: 'mock', model: 'mock-v1', status: 'ok', cacheStatus: 'MISS',
+            paragraphs: 1, iterations: 1, latencyMs: 1, calls: [],
+        })).resolves.toBeUndefined()
+    })
+
+    it('meters a rewrite under the visitor anon_id, with every model call', async () => {
+        const startedAt = Date.now()
+        const resp = await POST(new NextRequest('http://localhost/api/rewrite', {
+            method: 'POST',
+            headers: { 'content-type': 'application/json', cookie: 'anon_id=metered-visitor' },
+            body: JSON.stringify({ text: 'They met towards noon.' }),
+        }))
+        expect(resp.status).toBe(200)
+        const records = (await getUsageStore().list(startedAt, Date.now() + 1)).filter(r => r.anonId === 'metered-visitor')
+        expect(records).toHaveLength(1)
+        // The edit pass and the pass that confirms nothing is left
+        expect(records[0]).toMatchObject({ provider: 'mock', model: 'mock-v1', status: 'ok', cacheStatus: 'MISS', iterations: 2 })
+        expect(records[0].calls).toHaveLength(2)
+        expect(records[0].inputTokens).toBeGreaterThan(0)
+    })
+})
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest'
+import { parseModelOutput, validateRewriteResponse } from '@/lib/rewrite/validate'
+
+const input = 'We walked towards it.'
+const change = { change_id: 'c1', type: 'grammar', severity: 'recommended', reason: 'American form.', before: 'towards', after: 'toward', context_before: 'We walked ', context_after: ' it.' }
+const answer = { revised_text: 'We walked toward it.', changes: [change] }
+
+describe('parseModelOutput', () => {
+    it('accepts a well-formed answer as is', () => {
+        expect(parseModelOutput(JSON.stringify(answer), input)).toEqual({ ok: true, value: answer, repaired: false })
+    })
+
+    it('repairs fenced, chatty JSON with a trailing comma', () => {
+        const raw = `Here you go:\n\`\`\`json\n{"revised_text": "We walked toward it.", "changes": [${JSON.stringify(change)},]}\n\`\`\`\nAnything else?`
+        expect(parseModelOutput(raw, input)).toEqual({ ok: true, value: answer, repaired: true })
+    })
+
+    it('closes truncated JSON at the last complete value', () => {
+        const json = JSON.stringify({ revised_text: 'We walked toward it.', changes: [change, { ...change, change_id: 'c2' }] })
+        const result = parseModelOutput(json.slice(0, json.lastIndexOf('"c2"')), input)
+        expect(result).toEqual({ ok: true, value: answer, repaired: true })
+    })
+
+    it('refuses prose', () => {
+        expect(parseModelOutput('I cannot help with that.', input)).toEqual({ ok: false, errors: ['Response is not valid JSON'] })
+    })
+})
+
+describe('validateRewriteResponse', () => {
+    it('lists every schema violation, for the retry prompt', () => {
+        const result = validateRewriteResponse({ revised_text: '', changes: [{ ...change, type: 'style', severity: undefined, reason: ' ' }, 'c2'] }, input)
+        expect(result).toEqual({
+            ok: false,
+            errors: [
+                'revised_text must not be empty',
+                'changes[0].reason must be a non-empty string',
+                `changes[0].type must be one of spelling, grammar, punctuation, capitalization, hyphenation, numbers, consistency, citation_format, spacing, formatting, other (got "style")`,
+                'changes[0].severity must be one of required, recommended, optional, uncertain (got undefined)',
+                'changes[1] must be an object',
+            ],
+        })
+    })
+
+    it('rejects INSERT_AT_END, which only the pipeline assigns', () => {
+        const result = validateRewriteResponse({ ...answer, changes: [{ ...change, type: 'INSERT_AT_END' }] }, input)
+        expect(result.ok).toBe(false)
+    })
+
+    it('drops no-op changes and fills in missing context', () => {
+        const { context_before, context_after, ...bare } = change
+        const result = validateRewriteResponse({ ...answer, changes: [bare, { ...change, change_id: 'c2', after: 'towards' }] }, input)
+        expect(result).toEqual({ ok: true, value: { ...answer, changes: [{ ...change, context_before: '', context_after: '' }] }, repaired: false })
+    })
+})
@@ -8,6 +8,7 @@ export type ChangeType =
   | 'consistency'
   | 'citation_format'
   | 'spacing'
+  | 'formatting'
   | 'INSERT_AT_END'
   | 'other'
 
@@ -37,7 +38,8 @@ export interface HistoryItem {
   id: string
   createdAt: number
   input: string
-  output: RewriteResponse
+  output: RewriteResponse // as returned by the server; the decisions are applied on display
+  decisions?: Record<string, 'accepted' | 'rejected'> // by change_id, see lib/change-review
   provider?: string
 }
 
@@ -48,3 +50,21 @@ export interface Session {
   ttlMs: number
   history: HistoryItem[]
 }
+
+// A run of text with uniform inline formatting (e.g. from a .docx paragraph or rich-text input)
+export interface TextRun {
+  text: string
+  italic?: boolean
+  bold?: boolean
+  smallCaps?: boolean
+}
+
+export interface DocxParagraph {
+  runs: TextRun[]
+}
+
+// Events of /api/rewrite/stream, one JSON object per line (NDJSON)
+export type RewriteStreamEvent =
+  | { type: 'progress'; stage: 'rules' | 'llm_pass'; pass: number; preview: RewriteResponse }
+  | { type: 'done'; result: RewriteResponse; headers: Record<string, string> }
+  | { type: 'error'; status: number; body: any }
@@ -0,0 +1,21 @@
+import path from 'path'
+import { defineConfig } from 'vitest/config'
+
+export default defineConfig({
+    resolve: {
+        alias: { '@': path.resolve(__dirname) },
+    },
+    test: {
+        include: ['tests/**/*.test.ts'],
+        // Everything runs offline against the mock provider and in-process stores
+        env: {
+            USE_MOCK: '1',
+            MOCK_LATENCY_MS: '0',
+            DISABLE_PASSWORD_GATE: '1',
+            CACHE_BACKEND: 'memory',
+            USAGE_STORE: 'memory',
+            UPSTASH_REDIS_REST_URL: '',
+            UPSTASH_REDIS_REST_TOKEN: '',
+        },
+    },
+})